@@ -1,73 +1,161 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  ResponsiveContainer,
-  AreaChart,
-  Area,
-  Line
-} from 'recharts';
-import { BatteryManager, ChargingLog, SessionStats } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AlertRule, ChargingLog, DeviceProfile, GearItem, InsightSettings as InsightSettingsValue, Preferences as PreferencesValue, RetentionPolicy, SessionStats, StoredSession } from './types';
 import { 
   BoltIcon, BatteryIcon, ChartIcon, InfoIcon, 
-  VoltageIcon, AmpsIcon, EllipsisIcon, SunIcon, MoonIcon 
+  VoltageIcon, AmpsIcon, EllipsisIcon, SunIcon, MoonIcon, DeviceIcon 
 } from './components/Icons';
-import { getChargingInsights } from './services/geminiService';
+import { ProfilePicker } from './components/ProfilePicker';
+import { RetentionSettings } from './components/RetentionSettings';
+import { AlertRulesEditor } from './components/AlertRulesEditor';
+import { InsightSettings } from './components/InsightSettings';
+import { InsightCards } from './components/InsightCards';
+import { GearLibrary } from './components/GearLibrary';
+import { ChargerComparison } from './components/ChargerComparison';
+import { HealthDashboard } from './components/HealthDashboard';
+import { StatisticsDashboard } from './components/StatisticsDashboard';
+import { FleetView } from './components/FleetView';
+import { FleetSettings } from './components/FleetSettings';
+import { Preferences } from './components/Preferences';
+import { UnsupportedBrowser } from './components/UnsupportedBrowser';
+import { SimulatorControls } from './components/SimulatorControls';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { ChargingGoals } from './components/ChargingGoals';
+import { GoalIndicator, GoalMarkers } from './components/GoalIndicator';
+import { SessionDetail } from './components/SessionDetail';
+import { DiagnosticTiles, formatSessionCharge, sessionTiles } from './components/DiagnosticTiles';
+import { PhaseLegend, SeriesLegend, TelemetryChart } from './components/TelemetryChart';
+import { generateInsight, loadInsightSettings, saveInsightSettings } from './services/insightProviders';
+import {
+  PRESET_PROFILES, capacityWh, loadActiveProfileId, loadCustomProfiles,
+  resolveProfile, saveActiveProfileId, saveCustomProfiles
+} from './services/deviceProfiles';
+import {
+  applyRetention, clearSessions, countSessions, getAllSessions, getArchiveUsage, getSession, listSessions,
+  loadRetentionPolicy, mergeSessions, migrateLegacySessions, saveRetentionPolicy, saveSession
+} from './services/sessionStore';
+import { sessionMode } from './services/sessionStatistics';
+import { loadGear, saveGear } from './services/gearLibrary';
+import { simulatorUrl } from './services/batterySource';
+import { now as clockNow } from './services/clock';
+import { wantsInsight } from './services/sessionReducer';
+import { useBatteryTelemetry } from './hooks/useBatteryTelemetry';
+import { useServiceWorkerUpdate } from './hooks/useServiceWorkerUpdate';
+import { useWakeLock, wakeLockSupported } from './hooks/useWakeLock';
+import { useFleetSync } from './hooks/useFleetSync';
+import { deviceId, loadFleetSettings, saveFleetSettings } from './services/fleetSync';
+import { createI18n } from './services/i18n';
+import { loadPreferences, savePreferences } from './services/preferences';
+import { assessBatteryHealth, loadHealthThreshold, saveHealthThreshold } from './services/batteryHealth';
+import { loadChargingGoals, planCharge, saveChargingGoals, scoreSession, timeAboveLimitMs, typicalChargeWatts, weeklyGoalSummary } from './services/chargingGoals';
+import { VOLTAGE_TIER_META, inferVoltageTier } from './services/chargeCurve';
+import { predictCharge, projectRuntimeSeconds } from './services/chargePrediction';
+import { AlertRuleState, AlertSnapshot, evaluateAlertRules, loadAlertRules, saveAlertRules } from './services/alertRules';
+import { notificationsSupported, requestNotificationPermission, showSystemNotification } from './services/notifications';
+import { SessionImportError, downloadFile, exportFileName, parseSessionFile, toCsv, toJson } from './services/sessionTransfer';
 
-const BATTERY_CAPACITY_WH = 19.25; // Typical 5000mAh battery at 3.85V
-const TOTAL_MAH = 5000;
-const MAX_STORED_SESSIONS = 5;
+const HISTORY_PAGE_SIZE = 10;
+const PREDICTION_TARGET = 0.8;
 
 const App: React.FC = () => {
   const [theme, setTheme] = useState<'dark' | 'light'>(() => {
     return (localStorage.getItem('vf-theme') as 'dark' | 'light') || 'dark';
   });
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const [battery, setBattery] = useState<BatteryManager | null>(null);
-  const [isCharging, setIsCharging] = useState(false);
-  const [level, setLevel] = useState(0);
-  const [metrics, setMetrics] = useState({ watts: 0, volts: 0, amps: 0 });
-  const [history, setHistory] = useState<ChargingLog[]>([]);
-  const [session, setSession] = useState<SessionStats | null>(null);
-  const [pastSessions, setPastSessions] = useState<SessionStats[]>(() => {
-    const saved = localStorage.getItem('vf-sessions');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [aiInsight, setAiInsight] = useState<string>('');
-  const [isLoadingInsight, setIsLoadingInsight] = useState(false);
-  const [unsupportedBrowser, setUnsupportedBrowser] = useState(false);
+  const [isProfilePickerOpen, setIsProfilePickerOpen] = useState(false);
+  const [customProfiles, setCustomProfiles] = useState<DeviceProfile[]>(loadCustomProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(loadActiveProfileId);
+  const [drainMonitoring, setDrainMonitoring] = useState(() => localStorage.getItem('vf-drain-monitoring') === 'on');
+  const [keepScreenOn, setKeepScreenOn] = useState(() => localStorage.getItem('vf-wake-lock') === 'on');
+  const [prediction, setPrediction] = useState<{ fullAt: number | null; targetAt: number | null } | null>(null);
+  const [clock, setClock] = useState(clockNow());
+  const [pastSessions, setPastSessions] = useState<SessionStats[]>([]);
+  const [sessionTotal, setSessionTotal] = useState(0);
+  const [retention, setRetention] = useState<RetentionPolicy>(loadRetentionPolicy);
+  const [isRetentionOpen, setIsRetentionOpen] = useState(false);
+  const [archiveUsage, setArchiveUsage] = useState<{ count: number; bytes: number } | null>(null);
+  const [openSessionId, setOpenSessionId] = useState<number | null>(null);
+  const [openSession, setOpenSession] = useState<StoredSession | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+  const [insightSettings, setInsightSettings] = useState<InsightSettingsValue>(loadInsightSettings);
+  const [isInsightSettingsOpen, setIsInsightSettingsOpen] = useState(false);
+  const [analyzingSessionId, setAnalyzingSessionId] = useState<number | null>(null);
+  const [gear, setGear] = useState<GearItem[]>(loadGear);
+  const [isGearOpen, setIsGearOpen] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparisonSessions, setComparisonSessions] = useState<StoredSession[] | null>(null);
+  const [isHealthOpen, setIsHealthOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [statsSessions, setStatsSessions] = useState<StoredSession[] | null>(null);
+  const [healthStats, setHealthStats] = useState<SessionStats[] | null>(null);
+  const [healthThreshold, setHealthThreshold] = useState(loadHealthThreshold);
+  const [simulatorSpeed, setSimulatorSpeed] = useState<number | null>(null);
+  const [chargingGoals, setChargingGoals] = useState(loadChargingGoals);
+  const [isGoalsOpen, setIsGoalsOpen] = useState(false);
+  const [fleetSettings, setFleetSettings] = useState(loadFleetSettings);
+  const [isFleetSettingsOpen, setIsFleetSettingsOpen] = useState(false);
+  const [isFleetOpen, setIsFleetOpen] = useState(false);
+  const [preferences, setPreferences] = useState<PreferencesValue>(loadPreferences);
+  const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
 
-  const lastUpdateRef = useRef<{ time: number; level: number } | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const alertSnapshotRef = useRef<AlertSnapshot | null>(null);
+  const alertStateRef = useRef<AlertRuleState>({});
+  const lastLevelChangeRef = useRef(clockNow());
 
-  // Initialize Battery API
-  useEffect(() => {
-    if ('getBattery' in navigator) {
-      (navigator as any).getBattery().then((batt: BatteryManager) => {
-        setBattery(batt);
-        setIsCharging(batt.charging);
-        setLevel(batt.level);
-
-        const updateStatus = () => {
-          setIsCharging(batt.charging);
-          setLevel(batt.level);
-        };
-
-        batt.addEventListener('chargingchange', updateStatus);
-        batt.addEventListener('levelchange', updateStatus);
-
-        return () => {
-          batt.removeEventListener('chargingchange', updateStatus);
-          batt.removeEventListener('levelchange', updateStatus);
-        };
+  const i18n = useMemo(() => createI18n(preferences), [preferences]);
+  const { t } = i18n;
+
+  const profiles = [...PRESET_PROFILES, ...customProfiles];
+  const activeProfile = resolveProfile(profiles, activeProfileId);
+
+  const telemetry = useBatteryTelemetry({
+    drainMonitoring,
+    profile: activeProfile,
+    onSessionEnd: finished => {
+      let { stats } = finished;
+      if (chargingGoals.enabled && sessionMode(stats) === 'charging') {
+        const goal = scoreSession(stats, finished.logs, chargingGoals);
+        stats = { ...stats, goal };
+        telemetry.patchSession(stats.startTime, s => ({ ...s, goal }));
+      }
+      archiveSession(stats, finished.logs).then(() => {
+        fleet.reportSession(stats.startTime);
+        if (wantsInsight(finished)) triggerAiAnalysis(stats, finished.logs);
       });
-    } else {
-      setUnsupportedBrowser(true);
     }
-  }, []);
+  });
+  const { battery, simulator, session, metrics } = telemetry;
+  const swUpdate = useServiceWorkerUpdate();
+  const { charging: isCharging, level, chargingTime, dischargingTime } = telemetry.reading;
+  useWakeLock(keepScreenOn && (isCharging || drainMonitoring));
+  const fleet = useFleetSync(fleetSettings, {
+    level,
+    charging: isCharging,
+    monitoring: isCharging || drainMonitoring,
+    watts: metrics.watts,
+    volts: metrics.volts,
+    amps: metrics.amps,
+    confidence: metrics.confidence,
+    sessionStart: session?.endTime === null ? session.startTime : null,
+    profileName: activeProfile.name,
+    simulated: simulator !== null,
+  });
+  const history = telemetry.logs;
+  const unsupportedBrowser = telemetry.status === 'unsupported';
+  const sessionProfile = session?.endTime === null && session.profile ? session.profile : activeProfile;
+
+  const exitSimulator = () => {
+    const url = new URL(window.location.href);
+    ['simulate', 'speed', 'level', 'watts', 'session'].forEach(key => url.searchParams.delete(key));
+    window.location.href = url.toString();
+  };
 
   // Theme Persistence
   useEffect(() => {
@@ -79,12 +167,203 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
-  // Session Storage Persistence
   useEffect(() => {
-    if (pastSessions.length > 0) {
-      localStorage.setItem('vf-sessions', JSON.stringify(pastSessions.slice(0, MAX_STORED_SESSIONS)));
+    localStorage.setItem('vf-drain-monitoring', drainMonitoring ? 'on' : 'off');
+  }, [drainMonitoring]);
+
+  useEffect(() => {
+    localStorage.setItem('vf-wake-lock', keepScreenOn ? 'on' : 'off');
+  }, [keepScreenOn]);
+
+  useEffect(() => {
+    saveChargingGoals(chargingGoals);
+  }, [chargingGoals]);
+
+  useEffect(() => {
+    saveFleetSettings(fleetSettings);
+  }, [fleetSettings]);
+
+  useEffect(() => {
+    savePreferences(preferences);
+    document.documentElement.lang = preferences.locale;
+  }, [preferences]);
+
+  // Device Profile Persistence
+  useEffect(() => {
+    saveActiveProfileId(activeProfileId);
+  }, [activeProfileId]);
+
+  useEffect(() => {
+    saveCustomProfiles(customProfiles);
+  }, [customProfiles]);
+
+  // Session Archive
+  const refreshHistory = async (count: number) => {
+    try {
+      const [page, total] = await Promise.all([listSessions(0, count), countSessions()]);
+      setPastSessions(page);
+      setSessionTotal(total);
+    } catch (error) {
+      console.error('Session archive error:', error);
+    }
+    await refreshHealth();
+  };
+
+  const refreshHealth = async () => {
+    try {
+      setHealthStats(await listSessions(0, Infinity));
+    } catch (error) {
+      console.error('Session archive error:', error);
+    }
+  };
+
+  const loadMoreHistory = async () => {
+    try {
+      const page = await listSessions(pastSessions.length, HISTORY_PAGE_SIZE);
+      setPastSessions(prev => [...prev, ...page]);
+    } catch (error) {
+      console.error('Session archive error:', error);
+    }
+  };
+
+  useEffect(() => {
+    migrateLegacySessions()
+      .then(() => applyRetention(retention))
+      .catch(error => console.error('Session archive error:', error))
+      .finally(() => refreshHistory(HISTORY_PAGE_SIZE));
+  }, []);
+
+  useEffect(() => {
+    saveRetentionPolicy(retention);
+  }, [retention]);
+
+  const archiveSession = async (stats: SessionStats, logs: ChargingLog[]) => {
+    try {
+      await saveSession({ id: stats.startTime, stats, logs });
+      await applyRetention(retention);
+    } catch (error) {
+      console.error('Session archive error:', error);
+    }
+    await refreshHistory(Math.max(pastSessions.length + 1, HISTORY_PAGE_SIZE));
+  };
+
+  const updateRetention = async (policy: RetentionPolicy) => {
+    setRetention(policy);
+    try {
+      await applyRetention(policy);
+      setArchiveUsage(await getArchiveUsage());
+    } catch (error) {
+      console.error('Session archive error:', error);
+    }
+    await refreshHistory(Math.max(pastSessions.length, HISTORY_PAGE_SIZE));
+  };
+
+  const openSessionDetail = async (id: number) => {
+    setOpenSessionId(id);
+    setOpenSession(null);
+    try {
+      const stored = await getSession(id);
+      if (stored) {
+        setOpenSession(stored);
+      } else {
+        setOpenSessionId(null);
+      }
+    } catch (error) {
+      console.error('Session archive error:', error);
+      setOpenSessionId(null);
+    }
+  };
+
+  const closeSessionDetail = () => {
+    setOpenSessionId(null);
+    setOpenSession(null);
+  };
+
+  const openComparison = async () => {
+    setIsComparing(true);
+    setComparisonSessions(null);
+    try {
+      setComparisonSessions(await getAllSessions());
+    } catch (error) {
+      console.error('Session archive error:', error);
+      setIsComparing(false);
+    }
+  };
+
+  const openStatistics = async () => {
+    setIsStatsOpen(true);
+    setStatsSessions(null);
+    try {
+      setStatsSessions(await getAllSessions());
+    } catch (error) {
+      console.error('Session archive error:', error);
+      setIsStatsOpen(false);
+    }
+  };
+
+  // Applies a stats change to an archived session and every copy of it held in state
+  const updateSessionStats = async (id: number, update: (stats: SessionStats) => SessionStats) => {
+    const apply = (s: SessionStats) => (s.startTime === id ? update(s) : s);
+    telemetry.patchSession(id, update);
+    setOpenSession(prev => prev && { ...prev, stats: apply(prev.stats) });
+    setPastSessions(prev => prev.map(apply));
+    try {
+      const stored = await getSession(id);
+      if (stored) await saveSession({ ...stored, stats: apply(stored.stats) });
+    } catch (error) {
+      console.error('Session archive error:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const exportSessions = (sessions: StoredSession[], format: 'json' | 'csv') => {
+    const single = sessions.length === 1 ? sessions[0].stats : undefined;
+    if (format === 'json') {
+      downloadFile(exportFileName('json', single), toJson(sessions), 'application/json');
+    } else {
+      downloadFile(exportFileName('csv', single), toCsv(sessions), 'text/csv');
+    }
+  };
+
+  const exportAllSessions = async (format: 'json' | 'csv') => {
+    try {
+      const sessions = await getAllSessions();
+      if (sessions.length === 0) {
+        setNotice(t('notice.noSessions'));
+        return;
+      }
+      exportSessions(sessions, format);
+    } catch (error) {
+      console.error('Session export error:', error);
+      setNotice(t('notice.exportFailed'));
     }
-  }, [pastSessions]);
+  };
+
+  const importSessionFile = async (file: File) => {
+    try {
+      const { added, skipped } = await mergeSessions(parseSessionFile(await file.text()));
+      const imported = i18n.plural('notice.imported', added);
+      setNotice(skipped ? t('notice.importedSkipped', { imported, skipped }) : imported);
+      await refreshHistory(Math.max(pastSessions.length + added, HISTORY_PAGE_SIZE));
+    } catch (error) {
+      if (error instanceof SessionImportError) {
+        setNotice(t('notice.importFailedReason', { reason: t(error.key, { ...error.params, ...(error.detail ? { detail: t(error.detail) } : {}) }) }));
+      } else {
+        console.error('Session import error:', error);
+        setNotice(t('notice.importFailed'));
+      }
+    }
+  };
+
+  const openRetentionSettings = () => {
+    setIsRetentionOpen(true);
+    getArchiveUsage().then(setArchiveUsage).catch(() => setArchiveUsage(null));
+  };
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -96,107 +375,108 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const estimateElectricalProperties = (watts: number) => {
-    let volts = 5.0;
-    if (watts > 25) volts = 12.0;
-    else if (watts > 12) volts = 9.0;
-    else if (watts > 0) volts = 5.0;
-    const jitter = (Math.random() - 0.5) * 0.1;
-    const stableVolts = volts + (watts > 0 ? jitter : 0);
-    const amps = watts > 0 ? watts / stableVolts : 0;
-    return { volts: stableVolts, amps };
-  };
+  // With goals on, the second prediction target is the upper limit rather than the fixed 80%
+  const predictionTarget = chargingGoals.enabled ? chargingGoals.upperLimit : PREDICTION_TARGET;
 
+  // Time-to-full / time-to-target prediction, anchored to absolute times so the countdown can tick
   useEffect(() => {
-    if (isCharging) {
-      if (!session || session.endTime !== null) {
-        setSession({
-          startTime: Date.now(),
-          endTime: null,
-          startLevel: level,
-          endLevel: null,
-          avgWattage: 0,
-          maxWattage: 0,
-          avgVoltage: 0,
-          maxAmperage: 0,
-          totalEnergyWh: 0
-        });
-      }
-
-      const now = Date.now();
-      if (lastUpdateRef.current && lastUpdateRef.current.level !== level) {
-        const deltaLevel = level - lastUpdateRef.current.level;
-        const deltaTimeHours = (now - lastUpdateRef.current.time) / (1000 * 60 * 60);
-        
-        if (deltaTimeHours > 0) {
-          const wattage = (deltaLevel * BATTERY_CAPACITY_WH) / deltaTimeHours;
-          const cleanWattage = Math.min(Math.max(wattage, 0), 120); 
-          const { volts, amps } = estimateElectricalProperties(cleanWattage);
-          
-          setMetrics({ watts: cleanWattage, volts, amps });
-          setHistory(prev => [...prev.slice(-49), { 
-            timestamp: now, 
-            level: level * 100, 
-            wattage: cleanWattage,
-            voltage: volts,
-            amperage: amps,
-            status: 'charging'
-          }]);
-
-          setSession(prev => {
-            if (!prev) return null;
-            const newMaxW = Math.max(prev.maxWattage, cleanWattage);
-            const newMaxA = Math.max(prev.maxAmperage, amps);
-            const newAvgW = prev.avgWattage === 0 ? cleanWattage : (prev.avgWattage + cleanWattage) / 2;
-            const newAvgV = prev.avgVoltage === 0 ? volts : (prev.avgVoltage + volts) / 2;
-            return { 
-              ...prev, 
-              maxWattage: newMaxW, 
-              avgWattage: newAvgW, 
-              avgVoltage: newAvgV, 
-              maxAmperage: newMaxA 
-            };
-          });
-        }
-      }
-      if (!lastUpdateRef.current || lastUpdateRef.current.level !== level) {
-        lastUpdateRef.current = { time: now, level };
-      }
-    } else {
-      if (session && session.endTime === null) {
-        const finalSession = { ...session, endTime: Date.now(), endLevel: level };
-        setSession(finalSession);
-        setPastSessions(prev => [finalSession, ...prev].slice(0, MAX_STORED_SESSIONS));
-        triggerAiAnalysis(finalSession);
-      }
-      setMetrics({ watts: 0, volts: 0, amps: 0 });
-      lastUpdateRef.current = null;
+    if (!isCharging) {
+      setPrediction(null);
+      return;
     }
-  }, [isCharging, level]);
+    const now = clockNow();
+    const result = predictCharge({
+      level,
+      chargingTime,
+      watts: metrics.watts,
+      confidence: metrics.confidence,
+      capacityWh: capacityWh(sessionProfile)
+    }, predictionTarget, now);
+    setPrediction({
+      fullAt: result.fullInSeconds !== null ? now + result.fullInSeconds * 1000 : null,
+      targetAt: result.targetAt
+    });
+  }, [isCharging, metrics, chargingTime, predictionTarget]);
+
+  useEffect(() => {
+    if (!isCharging) return;
+    const timer = setInterval(() => setClock(clockNow()), 1000);
+    return () => clearInterval(timer);
+  }, [isCharging]);
 
-  const triggerAiAnalysis = async (stats: SessionStats) => {
-    setIsLoadingInsight(true);
-    const data = history.map(h => ({
-      time: new Date(h.timestamp).toLocaleTimeString(),
+  // Alert Rules
+  useEffect(() => {
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    saveInsightSettings(insightSettings);
+  }, [insightSettings]);
+
+  useEffect(() => {
+    saveGear(gear);
+  }, [gear]);
+
+  useEffect(() => {
+    saveHealthThreshold(healthThreshold);
+  }, [healthThreshold]);
+
+  useEffect(() => {
+    lastLevelChangeRef.current = clockNow();
+  }, [level, isCharging]);
+
+  useEffect(() => {
+    // Until the first battery reading arrives, level 0 would look like a real reading
+    if (!battery) return;
+    const snapshot: AlertSnapshot = {
+      now: clockNow(),
+      isCharging,
+      level,
+      watts: metrics.watts,
+      lastLevelChangeAt: lastLevelChangeRef.current
+    };
+    const { fired, state } = evaluateAlertRules(alertRules, alertSnapshotRef.current, snapshot, alertStateRef.current, i18n);
+    alertSnapshotRef.current = snapshot;
+    alertStateRef.current = state;
+    fired.forEach(alert => {
+      showSystemNotification(alert.title, alert.body, alert.rule.id);
+      setNotice(alert.title);
+    });
+  }, [battery, isCharging, level, metrics.watts, clock, alertRules]);
+
+  const enableNotifications = async () => {
+    setNotificationPermission(await requestNotificationPermission());
+  };
+
+  const triggerAiAnalysis = async (stats: SessionStats, logs: ChargingLog[]) => {
+    setAnalyzingSessionId(stats.startTime);
+    const timeline = logs.map(h => ({
+      time: i18n.time(h.timestamp, true),
       level: h.level,
       wattage: h.wattage,
       voltage: h.voltage,
       amperage: h.amperage
     }));
-    const insight = await getChargingInsights(data, stats.avgWattage, stats.maxWattage);
-    setAiInsight(insight || '');
-    setIsLoadingInsight(false);
+    const insight = await generateInsight({ stats, timeline, locale: preferences.locale }, insightSettings);
+    await updateSessionStats(stats.startTime, s => ({ ...s, insight }));
+    setAnalyzingSessionId(current => (current === stats.startTime ? null : current));
   };
 
-  const formattedChartData = history.map(h => ({
-    time: new Date(h.timestamp).toLocaleTimeString([], { minute: '2-digit', second: '2-digit' }),
-    wattage: parseFloat(h.wattage.toFixed(1)),
-    voltage: parseFloat(h.voltage.toFixed(2)),
-    amperage: parseFloat(h.amperage.toFixed(2)),
-    level: h.level
-  }));
+  const menuItemClass = `w-full px-5 py-4 flex items-center gap-3 text-xs font-bold uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'active:bg-slate-800 text-slate-300' : 'active:bg-slate-50 text-slate-700'}`;
+
+  const monitoring = isCharging || drainMonitoring;
+  const isDraining = !isCharging && drainMonitoring;
+  const runtimeSeconds = isDraining ? projectRuntimeSeconds(level, metrics.watts, capacityWh(sessionProfile), dischargingTime) : null;
 
-  const currentMah = (level * TOTAL_MAH).toFixed(0);
+  const health = healthStats && assessBatteryHealth(healthStats, activeProfile, healthThreshold);
+
+  const liveSession = session?.endTime === null ? session : null;
+  const msAboveLimit = liveSession && isCharging ? timeAboveLimitMs(liveSession, history, chargingGoals.upperLimit, clock) : 0;
+  // `clock` only ticks while charging; the ready-by plan is also shown while unplugged
+  const planNow = isCharging ? clock : clockNow();
+  const chargePlan = chargingGoals.enabled
+    ? planCharge(level, chargingGoals, isCharging ? metrics.watts : typicalChargeWatts(healthStats ?? pastSessions), capacityWh(sessionProfile), planNow)
+    : null;
 
   return (
     <div className={`min-h-screen transition-colors duration-500 flex flex-col items-center pt-[env(safe-area-inset-top)] pb-[env(safe-area-inset-bottom)]
@@ -217,8 +497,8 @@ const App: React.FC = () => {
           <div className="flex items-center gap-3">
             <div className={`flex px-3 py-1.5 rounded-full border items-center gap-2 text-[9px] font-black uppercase tracking-widest
               ${theme === 'dark' ? 'bg-slate-800/80 border-slate-700/50' : 'bg-white border-slate-200 shadow-sm'}`}>
-              <div className={`w-1.5 h-1.5 rounded-full ${isCharging ? 'bg-emerald-400 animate-pulse shadow-[0_0_8px_rgba(52,211,153,0.5)]' : 'bg-slate-500'}`} />
-              <span>{isCharging ? 'LINK ACTIVE' : 'STANDBY'}</span>
+              <div className={`w-1.5 h-1.5 rounded-full ${isCharging ? 'bg-emerald-400 animate-pulse shadow-[0_0_8px_rgba(52,211,153,0.5)]' : isDraining ? 'bg-rose-400 animate-pulse' : 'bg-slate-500'}`} />
+              <span>{t(isCharging ? 'status.linkActive' : isDraining ? 'status.drainMonitor' : 'status.standby')}</span>
             </div>
             
             <div className="relative" ref={menuRef}>
@@ -227,170 +507,324 @@ const App: React.FC = () => {
               </button>
               {isMenuOpen && (
                 <div className={`absolute right-0 mt-3 w-52 rounded-2xl border shadow-2xl z-50 overflow-hidden py-2 animate-in fade-in slide-in-from-top-2 ${theme === 'dark' ? 'bg-[#1e293b] border-slate-700' : 'bg-white border-slate-200'}`}>
-                  <button onClick={() => { setTheme(theme === 'dark' ? 'light' : 'dark'); setIsMenuOpen(false); }} className={`w-full px-5 py-4 flex items-center gap-3 text-xs font-bold uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'active:bg-slate-800 text-slate-300' : 'active:bg-slate-50 text-slate-700'}`}>
+                  <button onClick={() => { setTheme(theme === 'dark' ? 'light' : 'dark'); setIsMenuOpen(false); }} className={menuItemClass}>
                     {theme === 'dark' ? <SunIcon className="w-4 h-4" /> : <MoonIcon className="w-4 h-4" />}
-                    {theme === 'dark' ? 'Day Theme' : 'Night Theme'}
+                    {t(theme === 'dark' ? 'menu.dayTheme' : 'menu.nightTheme')}
+                  </button>
+                  <button onClick={() => { setIsProfilePickerOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <DeviceIcon className="w-4 h-4" />
+                    <span className="truncate">{activeProfile.name}</span>
+                  </button>
+                  <button onClick={() => setDrainMonitoring(!drainMonitoring)} className={menuItemClass}>
+                    <BatteryIcon className="w-4 h-4" />
+                    {t('menu.drainMonitor', { state: t(drainMonitoring ? 'common.on' : 'common.off') })}
+                  </button>
+                  {wakeLockSupported() && (
+                    <button onClick={() => setKeepScreenOn(!keepScreenOn)} className={menuItemClass}>
+                      <SunIcon className="w-4 h-4" />
+                      {t('menu.keepScreenOn', { state: t(keepScreenOn ? 'common.on' : 'common.off') })}
+                    </button>
+                  )}
+                  <button onClick={() => { setIsAlertsOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <BoltIcon className="w-4 h-4" />
+                    {t('menu.alerts', { count: alertRules.filter(r => r.enabled).length })}
                   </button>
-                  <button onClick={() => { setPastSessions([]); localStorage.removeItem('vf-sessions'); setIsMenuOpen(false); }} className={`w-full px-5 py-4 flex items-center gap-3 text-xs font-bold uppercase tracking-widest text-rose-500 active:scale-95 transition-transform ${theme === 'dark' ? 'active:bg-slate-800' : 'active:bg-slate-50'}`}>
-                    Clear Logs
+                  <button onClick={() => { setIsGoalsOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <BatteryIcon className="w-4 h-4" />
+                    {t('menu.chargingGoals', { state: chargingGoals.enabled ? `${Math.round(chargingGoals.lowerLimit * 100)}–${i18n.percent(chargingGoals.upperLimit)}` : t('common.off') })}
+                  </button>
+                  <button onClick={() => { setIsInsightSettingsOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <ChartIcon className="w-4 h-4" />
+                    <span className="truncate">{t('menu.insights', { provider: t(`insights.provider.${insightSettings.provider}`) })}</span>
+                  </button>
+                  <button onClick={() => { setIsGearOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <BoltIcon className="w-4 h-4" />
+                    {t('menu.gear')}
+                  </button>
+                  <button onClick={() => { closeSessionDetail(); setIsComparing(false); setIsStatsOpen(false); setIsFleetOpen(false); setIsHealthOpen(true); refreshHealth(); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <BatteryIcon className="w-4 h-4" />
+                    {t('menu.health')}
+                  </button>
+                  <button onClick={() => { closeSessionDetail(); setIsHealthOpen(false); setIsStatsOpen(false); setIsFleetOpen(false); openComparison(); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <ChartIcon className="w-4 h-4" />
+                    {t('menu.compare')}
+                  </button>
+                  <button onClick={() => { closeSessionDetail(); setIsHealthOpen(false); setIsComparing(false); setIsFleetOpen(false); openStatistics(); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <ChartIcon className="w-4 h-4" />
+                    {t('menu.statistics')}
+                  </button>
+                  <button onClick={() => { closeSessionDetail(); setIsHealthOpen(false); setIsComparing(false); setIsStatsOpen(false); setIsFleetOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <DeviceIcon className="w-4 h-4" />
+                    {t('menu.fleet')}
+                  </button>
+                  <button onClick={() => { setIsFleetSettingsOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <DeviceIcon className="w-4 h-4" />
+                    {t('menu.fleetSync', { state: t(fleetSettings.enabled ? (fleet.status === 'error' ? 'common.error' : 'common.on') : 'common.off') })}
+                  </button>
+                  <button onClick={() => { setIsPreferencesOpen(true); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <InfoIcon className="w-4 h-4" />
+                    {t('menu.preferences')}
+                  </button>
+                  <button onClick={() => { openRetentionSettings(); setIsMenuOpen(false); }} className={menuItemClass}>
+                    <InfoIcon className="w-4 h-4" />
+                    {t('menu.archive')}
+                  </button>
+                  <button onClick={() => { exportAllSessions('json'); setIsMenuOpen(false); }} className={menuItemClass}>
+                    {t('menu.exportJson')}
+                  </button>
+                  <button onClick={() => { exportAllSessions('csv'); setIsMenuOpen(false); }} className={menuItemClass}>
+                    {t('menu.exportCsv')}
+                  </button>
+                  <button onClick={() => { importInputRef.current?.click(); setIsMenuOpen(false); }} className={menuItemClass}>
+                    {t('menu.import')}
+                  </button>
+                  <button onClick={() => { clearSessions().finally(() => refreshHistory(HISTORY_PAGE_SIZE)); setIsMenuOpen(false); }} className={`w-full px-5 py-4 flex items-center gap-3 text-xs font-bold uppercase tracking-widest text-rose-500 active:scale-95 transition-transform ${theme === 'dark' ? 'active:bg-slate-800' : 'active:bg-slate-50'}`}>
+                    {t('menu.clearLogs')}
                   </button>
                 </div>
               )}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) importSessionFile(file);
+                  e.target.value = '';
+                }}
+              />
             </div>
           </div>
         </header>
 
-        <main className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
-          <div className={`lg:col-span-2 rounded-[2rem] p-6 md:p-10 border transition-all relative overflow-hidden group ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`}>
-            <div className="relative z-10 flex flex-col items-center lg:items-start">
-              <span className={`text-[10px] font-black uppercase tracking-[0.2em] mb-4 opacity-50`}>Live Power Inflow</span>
-              <div className="flex items-baseline gap-2 mb-8 md:mb-12">
-                <span className="text-7xl md:text-8xl font-black gradient-text mono tabular-nums tracking-tighter">
-                  {metrics.watts > 0 ? metrics.watts.toFixed(1) : '0.0'}
-                </span>
-                <span className="text-2xl font-black opacity-20 italic">W</span>
-              </div>
-              <div className="grid grid-cols-2 gap-3 w-full max-w-md lg:max-w-none">
-                <div className={`rounded-2xl p-4 md:p-5 border flex items-center gap-3 ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
-                  <div className="p-2 rounded-xl bg-amber-500/10 border border-amber-500/15"><VoltageIcon className="w-5 h-5 text-amber-500" /></div>
-                  <div>
-                    <p className="text-[8px] font-black uppercase opacity-40">Potential</p>
-                    <p className="text-xl font-black mono">{metrics.volts.toFixed(1)}V</p>
+        {openSessionId !== null ? (
+          <SessionDetail
+            theme={theme}
+            i18n={i18n}
+            session={openSession}
+            gear={gear}
+            analyzing={openSession !== null && analyzingSessionId === openSession.id}
+            onBack={closeSessionDetail}
+            onExport={format => openSession && exportSessions([openSession], format)}
+            onAnalyze={() => openSession && triggerAiAnalysis(openSession.stats, openSession.logs)}
+            onTag={tags => openSession && updateSessionStats(openSession.id, s => ({ ...s, ...tags }))}
+          />
+        ) : isComparing ? (
+          <ChargerComparison theme={theme} i18n={i18n} sessions={comparisonSessions} gear={gear} onBack={() => setIsComparing(false)} />
+        ) : isStatsOpen ? (
+          <StatisticsDashboard theme={theme} i18n={i18n} sessions={statsSessions} gear={gear} onBack={() => setIsStatsOpen(false)} />
+        ) : isFleetOpen ? (
+          <FleetView theme={theme} i18n={i18n} settings={fleetSettings} localDeviceId={deviceId()} onConfigure={() => setIsFleetSettingsOpen(true)} onBack={() => setIsFleetOpen(false)} />
+        ) : isHealthOpen ? (
+          <HealthDashboard
+            theme={theme}
+            i18n={i18n}
+            assessment={health}
+            profile={activeProfile}
+            threshold={healthThreshold}
+            onThresholdChange={setHealthThreshold}
+            onBack={() => setIsHealthOpen(false)}
+          />
+        ) : (
+          <>
+            {health?.belowThreshold && (
+              <button onClick={() => setIsHealthOpen(true)} className="w-full text-left p-4 rounded-2xl border border-rose-500/30 bg-rose-500/5 text-rose-500 text-[10px] font-bold active:scale-[0.98] transition-transform">
+                {t('health.banner', { percent: i18n.percent(health.healthPercent! / 100), threshold: i18n.percent(healthThreshold / 100) })}
+              </button>
+            )}
+            {simulator && (
+              <SimulatorControls
+                theme={theme}
+                i18n={i18n}
+                charging={isCharging}
+                speed={simulatorSpeed ?? simulator.getSpeed()}
+                onChargingChange={charging => simulator.setCharging(charging)}
+                onSpeedChange={speed => { simulator.setSpeed(speed); setSimulatorSpeed(speed); }}
+                onExit={exitSimulator}
+              />
+            )}
+            {unsupportedBrowser ? (
+              <UnsupportedBrowser theme={theme} i18n={i18n} onLaunchSimulator={() => { window.location.href = simulatorUrl(); }} />
+            ) : (
+              <>
+                <main className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6">
+                  <div className={`lg:col-span-2 rounded-[2rem] p-6 md:p-10 border transition-all relative overflow-hidden group ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`}>
+                    <div className="relative z-10 flex flex-col items-center lg:items-start">
+                      <span className={`text-[10px] font-black uppercase tracking-[0.2em] mb-4 opacity-50`}>{t(isDraining ? 'live.powerDraw' : 'live.powerInflow')}</span>
+                      <div className="flex items-baseline gap-2 mb-8 md:mb-12">
+                        <span className="text-7xl md:text-8xl font-black gradient-text mono tabular-nums tracking-tighter">
+                          {i18n.watts(Math.max(metrics.watts, 0))}
+                        </span>
+                        <span className="text-2xl font-black opacity-20 italic">W</span>
+                        {monitoring && (
+                          <span className={`ml-2 px-2 py-1 rounded-lg border text-[8px] font-black uppercase tracking-widest self-center
+                            ${metrics.confidence >= 0.7 ? 'text-emerald-500 border-emerald-500/30' : metrics.confidence >= 0.4 ? 'text-amber-500 border-amber-500/30' : 'text-rose-500 border-rose-500/30'}`}>
+                            {t('live.confidence', { percent: i18n.percent(metrics.confidence) })}
+                          </span>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 gap-3 w-full max-w-md lg:max-w-none">
+                        <div className={`rounded-2xl p-4 md:p-5 border flex items-center gap-3 ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+                          <div className="p-2 rounded-xl bg-amber-500/10 border border-amber-500/15"><VoltageIcon className="w-5 h-5 text-amber-500" /></div>
+                          <div>
+                            <p className="text-[8px] font-black uppercase opacity-40">{t('live.potential')}</p>
+                            <p className="text-xl font-black mono">≈{i18n.volts(metrics.volts)}V</p>
+                            {isCharging && metrics.watts > 0 && <p className="text-[8px] font-black uppercase text-amber-500">{VOLTAGE_TIER_META[inferVoltageTier(metrics.watts)].label}</p>}
+                          </div>
+                        </div>
+                        <div className={`rounded-2xl p-4 md:p-5 border flex items-center gap-3 ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+                          <div className="p-2 rounded-xl bg-cyan-500/10 border border-cyan-500/15"><AmpsIcon className="w-5 h-5 text-cyan-500" /></div>
+                          <div>
+                            <p className="text-[8px] font-black uppercase opacity-40">{t('live.intensity')}</p>
+                            <p className="text-xl font-black mono">{i18n.amps(metrics.amps)}A</p>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
                   </div>
-                </div>
-                <div className={`rounded-2xl p-4 md:p-5 border flex items-center gap-3 ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
-                  <div className="p-2 rounded-xl bg-cyan-500/10 border border-cyan-500/15"><AmpsIcon className="w-5 h-5 text-cyan-500" /></div>
-                  <div>
-                    <p className="text-[8px] font-black uppercase opacity-40">Intensity</p>
-                    <p className="text-xl font-black mono">{metrics.amps.toFixed(2)}A</p>
+
+                  <div className={`rounded-[2rem] p-6 md:p-10 border transition-all relative overflow-hidden ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`}>
+                    <div className="relative z-10">
+                      <span className={`text-[9px] font-black uppercase tracking-[0.3em] block mb-8 opacity-40`}>{t('capacity.title')}</span>
+                      <div className="flex items-baseline justify-between mb-4">
+                        <div className="flex items-baseline">
+                          <span className="text-5xl md:text-6xl font-black mono leading-none">{(level * 100).toFixed(0)}</span>
+                          <span className="text-xl font-black opacity-20 ml-2 italic">%</span>
+                        </div>
+                        <BatteryIcon className="w-8 h-8 text-sky-500" />
+                      </div>
+                      <div className={`w-full h-10 rounded-2xl p-1 border relative overflow-hidden mb-8 ${theme === 'dark' ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
+                        {chargingGoals.enabled && <GoalMarkers goals={chargingGoals} />}
+                        <div className="h-full bg-gradient-to-r from-sky-600 to-indigo-600 rounded-xl transition-all duration-1000 ease-out" style={{ width: `${level * 100}%` }}>
+                          <div className="w-full h-full absolute top-0 left-0 bg-[linear-gradient(45deg,rgba(255,255,255,0.1)_25%,transparent_25%,transparent_50%,rgba(255,255,255,0.1)_50%,rgba(255,255,255,0.1)_75%,transparent_75%,transparent)] bg-[length:20px_20px] animate-[slide_1s_linear_infinite]" />
+                        </div>
+                      </div>
+                      <div className="space-y-4">
+                        <div className="flex justify-between items-end">
+                          <span className="text-[9px] font-black opacity-50">{t('capacity.activeCharge')}</span>
+                          <span className="text-base font-black mono">{i18n.charge(level, activeProfile)}</span>
+                        </div>
+                        <div className={`w-full h-[3px] rounded-full overflow-hidden ${theme === 'dark' ? 'bg-slate-800' : 'bg-slate-100'}`}>
+                          <div className="h-full bg-sky-500 opacity-30 transition-all duration-1000" style={{ width: `${level * 100}%` }} />
+                        </div>
+                        {isDraining && (
+                          <div className="flex justify-between items-end">
+                            <span className="text-[9px] font-black opacity-50">{t('capacity.runtimeLeft')}</span>
+                            <span className="text-base font-black mono">{runtimeSeconds !== null ? `~${i18n.duration(runtimeSeconds * 1000)}` : '—'}</span>
+                          </div>
+                        )}
+                        {prediction && (
+                          <>
+                            <div className="flex justify-between items-end">
+                              <span className="text-[9px] font-black opacity-50">{t('capacity.fullIn')}</span>
+                              <span className="text-base font-black mono">{prediction.fullAt !== null ? `~${i18n.duration(prediction.fullAt - clock)}` : '—'}</span>
+                            </div>
+                            {!chargingGoals.enabled && level < PREDICTION_TARGET && (
+                              <div className="flex justify-between items-end">
+                                <span className="text-[9px] font-black opacity-50">{t('capacity.targetAt', { percent: i18n.percent(PREDICTION_TARGET) })}</span>
+                                <span className="text-base font-black mono">{prediction.targetAt !== null ? i18n.time(prediction.targetAt) : '—'}</span>
+                              </div>
+                            )}
+                          </>
+                        )}
+                        {chargingGoals.enabled && (
+                          <GoalIndicator
+                            i18n={i18n}
+                            goals={chargingGoals}
+                            level={level}
+                            charging={isCharging}
+                            unplugAt={prediction?.targetAt ?? null}
+                            msAboveLimit={msAboveLimit}
+                            plan={chargePlan}
+                            now={planNow}
+                          />
+                        )}
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-            </div>
-          </div>
+                </main>
 
-          <div className={`rounded-[2rem] p-6 md:p-10 border transition-all relative overflow-hidden ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`}>
-            <div className="relative z-10">
-              <span className={`text-[9px] font-black uppercase tracking-[0.3em] block mb-8 opacity-40`}>Battery Capacity</span>
-              <div className="flex items-baseline justify-between mb-4">
-                <div className="flex items-baseline">
-                  <span className="text-5xl md:text-6xl font-black mono leading-none">{(level * 100).toFixed(0)}</span>
-                  <span className="text-xl font-black opacity-20 ml-2 italic">%</span>
-                </div>
-                <BatteryIcon className="w-8 h-8 text-sky-500" />
-              </div>
-              <div className={`w-full h-10 rounded-2xl p-1 border relative overflow-hidden mb-8 ${theme === 'dark' ? 'bg-slate-800 border-slate-700' : 'bg-slate-100 border-slate-200'}`}>
-                <div className="h-full bg-gradient-to-r from-sky-600 to-indigo-600 rounded-xl transition-all duration-1000 ease-out" style={{ width: `${level * 100}%` }}>
-                  <div className="w-full h-full absolute top-0 left-0 bg-[linear-gradient(45deg,rgba(255,255,255,0.1)_25%,transparent_25%,transparent_50%,rgba(255,255,255,0.1)_50%,rgba(255,255,255,0.1)_75%,transparent_75%,transparent)] bg-[length:20px_20px] animate-[slide_1s_linear_infinite]" />
-                </div>
-              </div>
-              <div className="space-y-4">
-                <div className="flex justify-between items-end">
-                  <span className="text-[9px] font-black opacity-50">Active Charge</span>
-                  <span className="text-base font-black mono">{currentMah} mAh</span>
-                </div>
-                <div className={`w-full h-[3px] rounded-full overflow-hidden ${theme === 'dark' ? 'bg-slate-800' : 'bg-slate-100'}`}>
-                  <div className="h-full bg-sky-500 opacity-30 transition-all duration-1000" style={{ width: `${level * 100}%` }} />
-                </div>
-              </div>
-            </div>
-          </div>
-        </main>
+                <section className={`rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`}>
+                  <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-10 px-1">
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-xl bg-indigo-500/10 border border-indigo-500/20 flex items-center justify-center text-indigo-500"><ChartIcon className="w-5 h-5" /></div>
+                      <div><h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{t('chart.title')}</h2></div>
+                    </div>
+                    <SeriesLegend i18n={i18n} series={['wattage', 'voltage']} />
+                  </div>
+                  <TelemetryChart theme={theme} i18n={i18n} sessionId={session?.startTime} logs={history} phases={session?.phases} gaps={session?.gaps} />
+                  {(session?.phases || session?.gaps) && <div className="mt-4 px-1"><PhaseLegend i18n={i18n} phases={session.phases ?? []} gaps={session.gaps} /></div>}
+                </section>
+              </>
+            )}
 
-        <section className={`rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`}>
-          <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-10 px-1">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 rounded-xl bg-indigo-500/10 border border-indigo-500/20 flex items-center justify-center text-indigo-500"><ChartIcon className="w-5 h-5" /></div>
-              <div><h2 className="text-lg font-black tracking-tight uppercase italic leading-none">Telemetry Graph</h2></div>
-            </div>
-            <div className="flex gap-4 text-[8px] font-black uppercase opacity-60">
-              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-sky-500" /> WATT</div>
-              <div className="flex items-center gap-1.5"><div className="w-2 h-2 rounded-full bg-amber-500" /> VOLT</div>
-            </div>
-          </div>
-          <div className="h-64 sm:h-80 w-full overflow-hidden">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={formattedChartData}>
-                <defs><linearGradient id="colorWatt" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.25}/><stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/></linearGradient></defs>
-                <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={theme === 'dark' ? '#1e293b' : '#f1f5f9'} />
-                <XAxis dataKey="time" hide />
-                <YAxis hide />
-                <Tooltip contentStyle={{ backgroundColor: theme === 'dark' ? '#1e293b' : '#ffffff', borderColor: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '16px', fontSize: '10px' }} />
-                <Area type="monotone" dataKey="wattage" stroke="#0ea5e9" strokeWidth={3} fillOpacity={1} fill="url(#colorWatt)" />
-                <Line type="monotone" dataKey="voltage" stroke="#f59e0b" strokeWidth={1.5} dot={false} strokeDasharray="6 6" />
-              </AreaChart>
-            </ResponsiveContainer>
-          </div>
-        </section>
-
-        <section className="w-full space-y-6">
-          {(isCharging || (session && session.endTime)) ? (
-            <div className={`rounded-[2rem] p-6 md:p-10 border transition-all space-y-8 shadow-xl ${theme === 'dark' ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
-              <div className="flex justify-between items-center px-1">
-                <div className="flex items-center gap-3">
-                   <div className="w-10 h-10 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-center text-emerald-500"><BoltIcon className="w-5 h-5" /></div>
-                   <h3 className="text-lg font-black tracking-tight uppercase italic leading-none">{isCharging ? 'Active Diagnostic' : 'Diagnostic Summary'}</h3>
+            <section className="w-full space-y-6">
+              {(monitoring || (session && session.endTime)) ? (
+                <div className={`rounded-[2rem] p-6 md:p-10 border transition-all space-y-8 shadow-xl ${theme === 'dark' ? 'bg-slate-900 border-slate-800' : 'bg-white border-slate-200'}`}>
+                  <div className="flex justify-between items-center px-1">
+                    <div className="flex items-center gap-3">
+                       <div className="w-10 h-10 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-center text-emerald-500"><BoltIcon className="w-5 h-5" /></div>
+                       <h3 className="text-lg font-black tracking-tight uppercase italic leading-none">{t(isCharging ? 'diagnostic.active' : isDraining ? 'diagnostic.drain' : 'diagnostic.summary')}</h3>
+                    </div>
+                    {monitoring && <div className="text-[10px] font-black uppercase text-sky-500 animate-pulse">{t('diagnostic.monitoring')}</div>}
+                  </div>
+
+                  <DiagnosticTiles theme={theme} tiles={sessionTiles(i18n, session, metrics, level)} />
+
+                  {!isCharging && !isDraining && (!session || sessionMode(session) === 'charging') && (
+                    <InsightCards
+                      theme={theme}
+                      i18n={i18n}
+                      insight={session?.insight}
+                      loading={session !== null && analyzingSessionId === session.startTime}
+                      placeholder={t('diagnostic.baseline')}
+                    />
+                  )}
                 </div>
-                {isCharging && <div className="text-[10px] font-black uppercase text-sky-500 animate-pulse">Monitoring...</div>}
-              </div>
-
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 md:gap-4">
-                {[
-                  { label: 'AVG RATE', val: (session?.avgWattage || metrics.watts).toFixed(1) + 'W' },
-                  { label: 'POTENTIAL', val: (session?.avgVoltage || metrics.volts).toFixed(1) + 'V' },
-                  { label: 'PEAK AMPS', val: (session?.maxAmperage || metrics.amps).toFixed(2) + 'A' },
-                  { label: 'NET GAIN', val: '+' + (((session?.endLevel || level) - (session?.startLevel || level)) * 100).toFixed(0) + '%', accent: true }
-                ].map((stat, i) => (
-                  <div key={i} className={`p-4 rounded-2xl border ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
-                    <p className="text-[7px] font-black uppercase opacity-40 mb-1">{stat.label}</p>
-                    <p className={`text-lg font-black mono ${stat.accent ? 'text-emerald-500' : ''}`}>{stat.val}</p>
+              ) : !unsupportedBrowser && (
+                 <div className={`text-center py-16 px-6 border-2 border-dashed rounded-[2.5rem] ${theme === 'dark' ? 'bg-slate-900/40 border-slate-800' : 'bg-slate-50 border-slate-200'}`}>
+                   <div className="w-16 h-16 rounded-2xl flex items-center justify-center mx-auto mb-6 bg-slate-800 text-slate-100 shadow-sm"><BatteryIcon className="w-8 h-8" /></div>
+                   <h3 className="text-base font-black uppercase italic tracking-tight mb-2 opacity-80">{t('standby.title')}</h3>
+                   <p className="text-[11px] font-medium opacity-40 max-w-xs mx-auto leading-relaxed">{t('standby.body')}</p>
+                 </div>
+              )}
+
+              {/* History Log */}
+              {pastSessions.length > 0 && (
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center px-1">
+                    <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('history.title')}</h4>
+                    <button onClick={openStatistics} className="text-[9px] font-black uppercase tracking-widest text-sky-500 active:scale-95 transition-transform">{t('history.statistics')}</button>
                   </div>
-                ))}
-              </div>
-
-              {!isCharging && (
-                <div className={`rounded-2xl p-6 border ${theme === 'dark' ? 'bg-indigo-500/5 border-indigo-500/20' : 'bg-indigo-500/[0.02] border-indigo-500/10'}`}>
-                  <div className="flex items-center gap-2 mb-4 text-indigo-500">
-                    <div className="w-1.5 h-1.5 rounded-full bg-current" />
-                    <span className="text-[9px] font-black uppercase">AI Health Analysis</span>
+                  <div className="space-y-2">
+                    {pastSessions.map(s => (
+                      <button key={s.startTime} onClick={() => openSessionDetail(s.startTime)} className={`w-full text-left p-4 rounded-2xl border flex justify-between items-center active:scale-[0.98] transition-transform ${theme === 'dark' ? 'bg-slate-900/60 border-slate-800' : 'bg-white border-slate-100 shadow-sm'}`}>
+                        <div className="flex items-center gap-3">
+                          {sessionMode(s) === 'discharging'
+                            ? <div className="p-2 rounded-lg bg-rose-500/10 text-rose-500"><BatteryIcon className="w-4 h-4" /></div>
+                            : <div className="p-2 rounded-lg bg-sky-500/10 text-sky-500"><BoltIcon className="w-4 h-4" /></div>}
+                          <div>
+                            <p className="text-[10px] font-black mono">{i18n.dateTime(s.startTime)}</p>
+                            <p className="text-[8px] opacity-40 uppercase">{t(sessionMode(s) === 'discharging' ? 'history.drain' : 'history.efficiency')}: {t('history.avg', { watts: i18n.watts(s.avgWattage) })} · {formatSessionCharge(i18n, s) ?? `${i18n.energy(s.totalEnergyWh)} Wh`}{s.profile ? ` · ${s.profile.name}` : ''}{s.insight ? ` · ${t('history.grade', { grade: s.insight.grade })}` : ''}{s.goal ? ` · ${s.goal.msAboveLimit > 0 ? t('history.over', { duration: i18n.duration(s.goal.msAboveLimit), percent: i18n.percent(s.goal.upperLimit) }) : t('history.withinLimit')}` : ''}</p>
+                          </div>
+                        </div>
+                        {sessionMode(s) === 'discharging'
+                          ? <span className="text-sm font-black text-rose-500">−{i18n.percent(s.startLevel - (s.endLevel ?? s.startLevel))}</span>
+                          : <span className="text-sm font-black text-emerald-500">+{i18n.percent((s.endLevel || 0) - s.startLevel)}</span>}
+                      </button>
+                    ))}
                   </div>
-                  {isLoadingInsight ? (
-                    <div className="flex items-center gap-3 font-black text-[10px] opacity-30"><div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" /> Analyzing...</div>
-                  ) : (
-                    <p className="text-sm font-bold opacity-80 italic leading-snug">{aiInsight || "Recording stable baseline data..."}</p>
+                  {pastSessions.length < sessionTotal && (
+                    <button onClick={loadMoreHistory} className={`w-full py-3 rounded-2xl border text-[9px] font-black uppercase tracking-widest opacity-60 active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-800' : 'border-slate-200'}`}>
+                      {t('history.loadMore', { count: sessionTotal - pastSessions.length })}
+                    </button>
                   )}
                 </div>
               )}
-            </div>
-          ) : (
-             <div className={`text-center py-16 px-6 border-2 border-dashed rounded-[2.5rem] ${theme === 'dark' ? 'bg-slate-900/40 border-slate-800' : 'bg-slate-50 border-slate-200'}`}>
-               <div className="w-16 h-16 rounded-2xl flex items-center justify-center mx-auto mb-6 bg-slate-800 text-slate-100 shadow-sm"><BatteryIcon className="w-8 h-8" /></div>
-               <h3 className="text-base font-black uppercase italic tracking-tight mb-2 opacity-80">System Standby</h3>
-               <p className="text-[11px] font-medium opacity-40 max-w-xs mx-auto leading-relaxed">Connect hardware to initiate real-time telemetry.</p>
-             </div>
-          )}
-
-          {/* History Log */}
-          {pastSessions.length > 0 && (
-            <div className="space-y-4">
-              <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 px-1">Session History</h4>
-              <div className="space-y-2">
-                {pastSessions.map((s, i) => (
-                  <div key={i} className={`p-4 rounded-2xl border flex justify-between items-center ${theme === 'dark' ? 'bg-slate-900/60 border-slate-800' : 'bg-white border-slate-100 shadow-sm'}`}>
-                    <div className="flex items-center gap-3">
-                      <div className="p-2 rounded-lg bg-sky-500/10 text-sky-500"><BoltIcon className="w-4 h-4" /></div>
-                      <div>
-                        <p className="text-[10px] font-black mono">{new Date(s.startTime).toLocaleDateString()} {new Date(s.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
-                        <p className="text-[8px] opacity-40 uppercase">Efficiency Analysis: {s.avgWattage.toFixed(1)}W AVG</p>
-                      </div>
-                    </div>
-                    <span className="text-sm font-black text-emerald-500">+{( ( (s.endLevel || 0) - s.startLevel ) * 100).toFixed(0)}%</span>
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-        </section>
+            </section>
+          </>
+        )}
 
         <footer className={`w-full flex justify-between items-center py-8 border-t mt-8 opacity-25 text-[8px] font-black uppercase ${theme === 'dark' ? 'border-slate-800' : 'border-slate-200'}`}>
           <p>© 2024 VOLTFLOW LABS</p>
@@ -398,6 +832,109 @@ const App: React.FC = () => {
         </footer>
       </div>
 
+      {isProfilePickerOpen && (
+        <ProfilePicker
+          theme={theme}
+          i18n={i18n}
+          profiles={profiles}
+          activeId={activeProfile.id}
+          onSelect={setActiveProfileId}
+          onAdd={p => { setCustomProfiles(prev => [...prev, p]); setActiveProfileId(p.id); }}
+          onDelete={id => setCustomProfiles(prev => prev.filter(p => p.id !== id))}
+          onClose={() => setIsProfilePickerOpen(false)}
+        />
+      )}
+
+      {isRetentionOpen && (
+        <RetentionSettings
+          theme={theme}
+          i18n={i18n}
+          policy={retention}
+          usage={archiveUsage}
+          onChange={updateRetention}
+          onClose={() => setIsRetentionOpen(false)}
+        />
+      )}
+
+      {isAlertsOpen && (
+        <AlertRulesEditor
+          theme={theme}
+          i18n={i18n}
+          rules={alertRules}
+          permission={notificationPermission}
+          onChange={setAlertRules}
+          onRequestPermission={enableNotifications}
+          onClose={() => setIsAlertsOpen(false)}
+        />
+      )}
+
+      {isGearOpen && (
+        <GearLibrary
+          theme={theme}
+          i18n={i18n}
+          items={gear}
+          onAdd={item => setGear(prev => [...prev, item])}
+          onDelete={id => setGear(prev => prev.filter(g => g.id !== id))}
+          onClose={() => setIsGearOpen(false)}
+        />
+      )}
+
+      {isGoalsOpen && (
+        <ChargingGoals
+          theme={theme}
+          i18n={i18n}
+          goals={chargingGoals}
+          weeks={weeklyGoalSummary(healthStats ?? pastSessions)}
+          onChange={setChargingGoals}
+          onClose={() => setIsGoalsOpen(false)}
+        />
+      )}
+
+      {isFleetSettingsOpen && (
+        <FleetSettings
+          theme={theme}
+          i18n={i18n}
+          settings={fleetSettings}
+          status={fleet.status}
+          error={fleet.error}
+          lastSyncAt={fleet.lastSyncAt}
+          defaultName={activeProfile.name}
+          onChange={setFleetSettings}
+          onClose={() => setIsFleetSettingsOpen(false)}
+        />
+      )}
+
+      {isPreferencesOpen && (
+        <Preferences
+          theme={theme}
+          i18n={i18n}
+          prefs={preferences}
+          sample={{ time: clockNow(), watts: metrics.watts, charge: i18n.charge(level, activeProfile) }}
+          onChange={setPreferences}
+          onClose={() => setIsPreferencesOpen(false)}
+        />
+      )}
+
+      {isInsightSettingsOpen && (
+        <InsightSettings
+          theme={theme}
+          i18n={i18n}
+          settings={insightSettings}
+          onChange={setInsightSettings}
+          onClose={() => setIsInsightSettingsOpen(false)}
+        />
+      )}
+
+      {notice && (
+        <div className="fixed bottom-[calc(env(safe-area-inset-bottom)+1.5rem)] left-1/2 -translate-x-1/2 z-[70] px-5 py-3 rounded-2xl bg-slate-800 text-slate-100 text-[10px] font-black uppercase tracking-widest shadow-2xl border border-slate-700">
+          {notice}
+        </div>
+      )}
+
+      {swUpdate.updateReady && (
+        <UpdatePrompt theme={theme} i18n={i18n} onReload={swUpdate.applyUpdate} onDismiss={swUpdate.dismiss} />
+      )}
+
       <style>{`
         @keyframes slide { from { background-position: 0 0; } to { background-position: 40px 0; } }
         .gradient-text { background: linear-gradient(to bottom right, #0ea5e9, #6366f1); -webkit-background-clip: text; -webkit-text-fill-color: transparent; }
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { AlertRule, Theme } from '../types';
+import { AlertRuleDraft, createAlertRule, describeAlertRule } from '../services/alertRules';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+import { I18n } from '../services/i18n';
+
+const KINDS: AlertRule['kind'][] = ['level-reached', 'unplugged', 'low-wattage', 'stalled'];
+
+export const AlertRulesEditor = ({ theme, i18n, rules, permission, onChange, onRequestPermission, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  rules: AlertRule[];
+  permission: NotificationPermission | 'unsupported';
+  onChange: (rules: AlertRule[]) => void;
+  onRequestPermission: () => void;
+  onClose: () => void;
+}) => {
+  const { t } = i18n;
+  const [kind, setKind] = useState<AlertRule['kind']>('level-reached');
+  const [level, setLevel] = useState('80');
+  const [watts, setWatts] = useState('10');
+  const [minutes, setMinutes] = useState('10');
+  const [error, setError] = useState<string | null>(null);
+
+  const buildDraft = (): AlertRuleDraft | string => {
+    const m = parseFloat(minutes);
+    switch (kind) {
+      case 'level-reached': {
+        const l = parseFloat(level);
+        return l >= 1 && l <= 100 ? { kind, level: l } : t('alerts.invalidLevel');
+      }
+      case 'unplugged':
+        return { kind };
+      case 'low-wattage': {
+        const w = parseFloat(watts);
+        if (!(w > 0)) return t('alerts.invalidWatts');
+        return m > 0 ? { kind, watts: w, minutes: m } : t('alerts.invalidMinutes');
+      }
+      case 'stalled':
+        return m > 0 ? { kind, minutes: m } : t('alerts.invalidMinutes');
+    }
+  };
+
+  const handleAdd = () => {
+    const draft = buildDraft();
+    if (typeof draft === 'string') {
+      setError(draft);
+      return;
+    }
+    onChange([...rules, createAlertRule(draft)]);
+    setError(null);
+  };
+
+  return (
+    <Sheet theme={theme} title={t('alerts.title')} onClose={onClose}>
+      {permission !== 'granted' && (
+        <div className="p-4 rounded-2xl border border-amber-500/30 bg-amber-500/5 mb-6">
+          <p className="text-[10px] font-bold text-amber-500 mb-3">
+            {t(permission === 'unsupported' ? 'alerts.unsupported' : permission === 'denied' ? 'alerts.denied' : 'alerts.prompt')}
+          </p>
+          {permission === 'default' && (
+            <button onClick={onRequestPermission} className="w-full py-2.5 rounded-xl bg-amber-500 text-white text-[10px] font-black uppercase tracking-widest active:scale-95 transition-transform">
+              {t('alerts.enable')}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2 mb-8">
+        {rules.length === 0 && <p className="text-[11px] font-medium opacity-40">{t('alerts.none')}</p>}
+        {rules.map(rule => (
+          <div key={rule.id} className={`p-4 rounded-2xl border flex justify-between items-center gap-3 ${theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}>
+            <button
+              onClick={() => onChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)))}
+              className={`w-9 h-5 rounded-full p-0.5 flex transition-all ${rule.enabled ? 'bg-sky-500 justify-end' : theme === 'dark' ? 'bg-slate-700 justify-start' : 'bg-slate-200 justify-start'}`}
+            >
+              <div className="w-4 h-4 rounded-full bg-white shadow" />
+            </button>
+            <p className={`flex-1 text-xs font-black ${rule.enabled ? '' : 'opacity-40'}`}>{describeAlertRule(i18n, rule)}</p>
+            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-[8px] font-black uppercase text-rose-500 px-2 py-1">{t('common.delete')}</button>
+          </div>
+        ))}
+      </div>
+
+      <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 mb-3">{t('alerts.newRule')}</h4>
+      <div className="space-y-3">
+        <label className="block">
+          <FieldLabel>{t('alerts.trigger')}</FieldLabel>
+          <select className={fieldClass(theme)} value={kind} onChange={e => setKind(e.target.value as AlertRule['kind'])}>
+            {KINDS.map(k => <option key={k} value={k}>{t(`alerts.kind.${k}`)}</option>)}
+          </select>
+        </label>
+        {kind === 'level-reached' && (
+          <label className="block">
+            <FieldLabel>{t('alerts.level')}</FieldLabel>
+            <input className={fieldClass(theme)} type="number" inputMode="numeric" value={level} onChange={e => setLevel(e.target.value)} />
+          </label>
+        )}
+        {(kind === 'low-wattage' || kind === 'stalled') && (
+          <div className="grid grid-cols-2 gap-3">
+            {kind === 'low-wattage' && (
+              <label className="block">
+                <FieldLabel>{t('alerts.belowW')}</FieldLabel>
+                <input className={fieldClass(theme)} type="number" inputMode="decimal" value={watts} onChange={e => setWatts(e.target.value)} />
+              </label>
+            )}
+            <label className="block">
+              <FieldLabel>{t('alerts.forMinutes')}</FieldLabel>
+              <input className={fieldClass(theme)} type="number" inputMode="numeric" value={minutes} onChange={e => setMinutes(e.target.value)} />
+            </label>
+          </div>
+        )}
+        {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+        <button onClick={handleAdd} className="w-full py-3 rounded-xl bg-sky-500 text-white text-xs font-black uppercase tracking-widest active:scale-95 transition-transform">
+          {t('alerts.add')}
+        </button>
+      </div>
+    </Sheet>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { GearItem, StoredSession, Theme } from '../types';
+import { ChartIcon, CheckIcon, BoltIcon } from './Icons';
+import { gearName } from '../services/gearLibrary';
+import { overlayKey, overlayWattage, rankChargers } from '../services/chargerComparison';
+import { sessionMode } from '../services/sessionStatistics';
+import { I18n } from '../services/i18n';
+
+const OVERLAY_COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#f43f5e', '#8b5cf6', '#06b6d4'];
+
+const sessionLabel = (i18n: I18n, session: StoredSession, gear: GearItem[]) => {
+  const { startTime, chargerId } = session.stats;
+  const charger = gearName(gear, chargerId);
+  return `${i18n.shortDate(startTime)} ${i18n.time(startTime)}${charger ? ` · ${charger}` : ''}`;
+};
+
+export const ChargerComparison = ({ theme, i18n, sessions, gear, onBack }: {
+  theme: Theme;
+  i18n: I18n;
+  sessions: StoredSession[] | null;
+  gear: GearItem[];
+  onBack: () => void;
+}) => {
+  const charging = (sessions ?? []).filter(s => sessionMode(s.stats) === 'charging' && s.logs.length > 0);
+  const [selected, setSelected] = useState<number[] | null>(null);
+  // Until the user picks, overlay the most recent tagged sessions
+  const selectedIds = selected ?? charging.filter(s => s.stats.chargerId).slice(0, 3).map(s => s.id);
+
+  const cardClass = `rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`;
+
+  if (!sessions) {
+    return (
+      <div className="flex items-center justify-center gap-3 py-24 font-black text-[10px] opacity-30">
+        <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" /> {i18n.t('common.loadingSessions')}
+      </div>
+    );
+  }
+
+  const toggle = (id: number) => {
+    setSelected(selectedIds.includes(id)
+      ? selectedIds.filter(s => s !== id)
+      : [...selectedIds, id].slice(-OVERLAY_COLORS.length));
+  };
+
+  const overlaid = charging.filter(s => selectedIds.includes(s.id));
+  const colorOf = (id: number) => OVERLAY_COLORS[selectedIds.indexOf(id) % OVERLAY_COLORS.length];
+  const rankings = rankChargers(charging, gear);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between px-1">
+        <button onClick={onBack} className={`px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`}>
+          {i18n.t('common.back')}
+        </button>
+        <p className="text-[10px] font-black uppercase tracking-widest opacity-40">{i18n.t('menu.compare')}</p>
+      </div>
+
+      <section className={cardClass}>
+        <div className="flex items-center gap-3 mb-8 px-1">
+          <div className="w-10 h-10 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-center text-emerald-500"><BoltIcon className="w-5 h-5" /></div>
+          <h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{i18n.t('compare.ranking')}</h2>
+        </div>
+        {rankings.length === 0 ? (
+          <p className="text-[11px] font-medium opacity-40 text-center py-8">{i18n.t('compare.noRanking')}</p>
+        ) : (
+          <div className="space-y-2">
+            {rankings.map((r, i) => (
+              <div key={r.charger.id} className={`p-4 rounded-2xl border flex items-center gap-4 ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+                <span className="text-lg font-black mono opacity-30 w-6">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-black truncate">{r.charger.name}</p>
+                  <p className="text-[8px] opacity-40 uppercase">{i18n.plural('common.sessions', r.sessionCount)}{r.charger.ratedWatts !== null ? ` · ${i18n.t('gear.rated', { watts: i18n.number(r.charger.ratedWatts, 0) })}` : ''}</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-black mono text-sky-500">{i18n.watts(r.medianWattage)}W</p>
+                  <p className="text-[7px] font-black uppercase opacity-40">{i18n.t('compare.median')}</p>
+                </div>
+                <div className="text-right w-16">
+                  <p className="text-sm font-black mono">{r.median20to80Ms !== null ? i18n.duration(r.median20to80Ms) : '—'}</p>
+                  <p className="text-[7px] font-black uppercase opacity-40">20→80%</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className={cardClass}>
+        <div className="flex items-center gap-3 mb-8 px-1">
+          <div className="w-10 h-10 rounded-xl bg-indigo-500/10 border border-indigo-500/20 flex items-center justify-center text-indigo-500"><ChartIcon className="w-5 h-5" /></div>
+          <h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{i18n.t('compare.overlay')}</h2>
+        </div>
+        {overlaid.length > 0 ? (
+          <div className="h-64 sm:h-80 w-full overflow-hidden mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={overlayWattage(overlaid)}>
+                <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={theme === 'dark' ? '#1e293b' : '#f1f5f9'} />
+                <XAxis dataKey="minute" type="number" domain={[0, 'dataMax']} tick={{ fontSize: 8 }} tickFormatter={m => i18n.duration(m * 60000)} stroke={theme === 'dark' ? '#475569' : '#94a3b8'} />
+                <YAxis hide />
+                <Tooltip
+                  contentStyle={{ backgroundColor: theme === 'dark' ? '#1e293b' : '#ffffff', borderColor: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '16px', fontSize: '10px' }}
+                  labelFormatter={m => i18n.duration(Number(m) * 60000)}
+                />
+                {overlaid.map(s => (
+                  <Area
+                    key={s.id}
+                    type="monotone"
+                    dataKey={overlayKey(s)}
+                    name={sessionLabel(i18n, s, gear)}
+                    stroke={colorOf(s.id)}
+                    fill={colorOf(s.id)}
+                    fillOpacity={0.08}
+                    strokeWidth={2}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-[11px] font-medium opacity-40 text-center py-16">{i18n.t('compare.selectNote')}</p>
+        )}
+        <div className="space-y-2">
+          {charging.length === 0 && <p className="text-[11px] font-medium opacity-40">{i18n.t('compare.noSessions')}</p>}
+          {charging.map(s => {
+            const on = selectedIds.includes(s.id);
+            return (
+              <button key={s.id} onClick={() => toggle(s.id)} className={`w-full text-left p-3 rounded-2xl border flex items-center gap-3 ${on ? 'border-sky-500/60 bg-sky-500/5' : theme === 'dark' ? 'border-slate-800' : 'border-slate-100'}`}>
+                <div className="w-5 h-5 rounded-full border flex items-center justify-center text-white" style={on ? { backgroundColor: colorOf(s.id), borderColor: colorOf(s.id) } : undefined}>
+                  {on && <CheckIcon className="w-3 h-3" />}
+                </div>
+                <p className="flex-1 text-[10px] font-black mono truncate">{sessionLabel(i18n, s, gear)}</p>
+                <span className="text-[9px] font-black mono opacity-60">{i18n.watts(s.stats.avgWattage)}W</span>
+              </button>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+};
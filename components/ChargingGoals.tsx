@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChargingGoals as ChargingGoalsValue, Theme } from '../types';
+import { LOWER_LIMIT_OPTIONS, UPPER_LIMIT_OPTIONS, WeeklyGoalSummary } from '../services/chargingGoals';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+import { I18n } from '../services/i18n';
+
+export const ChargingGoals = ({ theme, i18n, goals, weeks, onChange, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  goals: ChargingGoalsValue;
+  weeks: WeeklyGoalSummary[];
+  onChange: (goals: ChargingGoalsValue) => void;
+  onClose: () => void;
+}) => (
+  <Sheet theme={theme} title={i18n.t('goals.title')} onClose={onClose}>
+    <button
+      onClick={() => onChange({ ...goals, enabled: !goals.enabled })}
+      className={`w-full text-left p-4 rounded-2xl border transition-all mb-6 ${goals.enabled ? 'border-emerald-500 bg-emerald-500/5' : theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}
+    >
+      <p className="text-xs font-black">{i18n.t('goals.coaching', { state: i18n.t(goals.enabled ? 'common.on' : 'common.off') })}</p>
+      <p className="text-[10px] font-medium opacity-50 mt-1">{i18n.t('goals.coachingNote')}</p>
+    </button>
+
+    <div className={`space-y-3 mb-6 ${goals.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <FieldLabel>{i18n.t('goals.lower')}</FieldLabel>
+          <select className={fieldClass(theme)} value={goals.lowerLimit} onChange={e => onChange({ ...goals, lowerLimit: Number(e.target.value) })}>
+            {LOWER_LIMIT_OPTIONS.filter(o => goals.upperLimit - o >= 0.1).map(o => <option key={o} value={o}>{i18n.percent(o)}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <FieldLabel>{i18n.t('goals.upper')}</FieldLabel>
+          <select className={fieldClass(theme)} value={goals.upperLimit} onChange={e => onChange({ ...goals, upperLimit: Number(e.target.value) })}>
+            {UPPER_LIMIT_OPTIONS.filter(o => o - goals.lowerLimit >= 0.1).map(o => <option key={o} value={o}>{i18n.percent(o)}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="block">
+        <FieldLabel>{i18n.t('goals.readyBy')}</FieldLabel>
+        <input className={fieldClass(theme)} type="time" value={goals.readyBy ?? ''} onChange={e => onChange({ ...goals, readyBy: e.target.value || null })} />
+      </label>
+      <p className="text-[10px] font-medium opacity-50 leading-relaxed">{i18n.t('goals.readyByNote', { percent: i18n.percent(goals.upperLimit) })}</p>
+    </div>
+
+    <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 mb-2 px-1">{i18n.t('goals.weekly')}</h4>
+    {weeks.length === 0 ? (
+      <p className="text-[10px] font-medium opacity-50">{i18n.t('goals.noWeeks')}</p>
+    ) : (
+      <div className="space-y-2">
+        {weeks.map(week => (
+          <div key={week.weekStart} className={`p-4 rounded-2xl border flex justify-between items-center ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+            <div>
+              <p className="text-[10px] font-black mono">{i18n.t('goals.weekOf', { date: i18n.shortDate(week.weekStart) })}</p>
+              <p className="text-[8px] opacity-40 uppercase">{i18n.t('goals.withinLimit', { within: week.withinLimit, total: week.sessions })}</p>
+            </div>
+            <span className={`text-sm font-black mono ${week.msAboveLimit === 0 ? 'text-emerald-500' : 'text-amber-500'}`}>
+              {i18n.t('goals.over', { duration: i18n.duration(week.msAboveLimit) })}
+            </span>
+          </div>
+        ))}
+      </div>
+    )}
+  </Sheet>
+);
@@ -0,0 +1,58 @@
+import React from 'react';
+import { SessionStats, Theme } from '../types';
+import { sessionMode } from '../services/sessionStatistics';
+import { I18n } from '../services/i18n';
+
+export interface DiagnosticTile {
+  label: string;
+  val: string;
+  accent?: 'gain' | 'drain';
+}
+
+export const DiagnosticTiles = ({ theme, tiles }: { theme: Theme; tiles: DiagnosticTile[] }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 md:gap-4">
+    {tiles.map((stat, i) => (
+      <div key={i} className={`p-4 rounded-2xl border ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+        <p className="text-[7px] font-black uppercase opacity-40 mb-1">{stat.label}</p>
+        <p className={`text-lg font-black mono ${stat.accent === 'gain' ? 'text-emerald-500' : stat.accent === 'drain' ? 'text-rose-500' : ''}`}>{stat.val}</p>
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * Charge the session moved, in the preferred unit; null for sessions recorded before it was tracked.
+ * Sessions without a profile snapshot have no voltage to convert with, so they stay in mAh.
+ */
+export const formatSessionCharge = (i18n: I18n, stats: SessionStats): string | null => {
+  if (stats.chargeMah === undefined) return null;
+  return stats.profile ? i18n.capacity(stats.chargeMah, stats.profile.nominalVoltage) : `${i18n.number(stats.chargeMah, 0)} mAh`;
+};
+
+/**
+ * Summary tiles for a session. While a session is still warming up the live
+ * readings stand in for figures that have not been computed yet.
+ */
+export const sessionTiles = (
+  i18n: I18n,
+  stats: SessionStats | null,
+  live: { watts: number; volts: number; amps: number } = { watts: 0, volts: 0, amps: 0 },
+  level?: number
+): DiagnosticTile[] => {
+  const { t } = i18n;
+  const startLevel = stats?.startLevel ?? level ?? 0;
+  const endLevel = stats?.endLevel ?? level ?? startLevel;
+  const draining = stats !== null && sessionMode(stats) === 'discharging';
+  return [
+    { label: t(draining ? 'tiles.avgDraw' : 'tiles.avgRate'), val: i18n.watts(stats?.avgWattage || live.watts) + 'W' },
+    { label: t('tiles.potential'), val: '≈' + i18n.volts(stats?.avgVoltage || live.volts) + 'V' },
+    { label: t('tiles.peakAmps'), val: i18n.amps(stats?.maxAmperage || live.amps) + 'A' },
+    draining
+      ? { label: t('tiles.netDrain'), val: '−' + i18n.percent(startLevel - endLevel), accent: 'drain' }
+      : { label: t('tiles.netGain'), val: '+' + i18n.percent(endLevel - startLevel), accent: 'gain' },
+    { label: t(draining ? 'tiles.drained' : 'tiles.energy'), val: i18n.energy(stats?.totalEnergyWh ?? 0) + 'Wh' },
+    { label: t('tiles.charge'), val: (stats && formatSessionCharge(i18n, stats)) ?? '—' },
+    { label: t('tiles.minRate'), val: stats?.minWattage !== undefined ? i18n.watts(stats.minWattage) + 'W' : '—' },
+    { label: t('tiles.p90Rate'), val: stats?.p90Wattage !== undefined ? i18n.watts(stats.p90Wattage) + 'W' : '—' }
+  ];
+};
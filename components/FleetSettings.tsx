@@ -0,0 +1,61 @@
+import React from 'react';
+import { FleetSettings as FleetSettingsValue, Theme } from '../types';
+import { FleetSyncError, validateEndpoint } from '../services/fleetSync';
+import { FleetSyncStatus } from '../hooks/useFleetSync';
+import { I18n } from '../services/i18n';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+
+export const FleetSettings = ({ theme, i18n, settings, status, error, lastSyncAt, defaultName, onChange, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  settings: FleetSettingsValue;
+  status: FleetSyncStatus;
+  error: FleetSyncError | null;
+  lastSyncAt: number | null;
+  defaultName: string;
+  onChange: (settings: FleetSettingsValue) => void;
+  onClose: () => void;
+}) => {
+  const { t } = i18n;
+  const endpointError = settings.endpoint ? validateEndpoint(settings.endpoint) : null;
+
+  return (
+    <Sheet theme={theme} title={t('fleetSettings.title')} onClose={onClose}>
+      <button
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        className={`w-full text-left p-4 rounded-2xl border transition-all mb-6 ${settings.enabled ? 'border-emerald-500 bg-emerald-500/5' : theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}
+      >
+        <p className="text-xs font-black">{t('fleetSettings.share', { state: t(settings.enabled ? 'common.on' : 'common.off') })}</p>
+        <p className="text-[10px] font-medium opacity-50 mt-1">{t('fleetSettings.shareNote')}</p>
+      </button>
+
+      <div className="space-y-3 mb-6">
+        <label className="block">
+          <FieldLabel>{t('fleetSettings.url')}</FieldLabel>
+          <input className={fieldClass(theme)} type="url" placeholder="http://192.168.1.20:8787" value={settings.endpoint} onChange={e => onChange({ ...settings, endpoint: e.target.value.trim() })} />
+        </label>
+        {endpointError && <p className="text-[10px] font-bold text-rose-500">{t(endpointError)}</p>}
+        <label className="block">
+          <FieldLabel>{t('fleetSettings.deviceName')}</FieldLabel>
+          <input className={fieldClass(theme)} placeholder={defaultName} maxLength={80} value={settings.deviceName} onChange={e => onChange({ ...settings, deviceName: e.target.value })} />
+        </label>
+        <label className="block">
+          <FieldLabel>{t('fleetSettings.token')}</FieldLabel>
+          <input className={fieldClass(theme)} type="password" autoComplete="off" value={settings.token} onChange={e => onChange({ ...settings, token: e.target.value })} />
+        </label>
+        <p className="text-[10px] font-medium opacity-50 leading-relaxed">{t('fleetSettings.help', { command: 'npm run fleet' })}</p>
+      </div>
+
+      {settings.enabled && (
+        <div className={`p-4 rounded-2xl border ${status === 'error' ? 'border-rose-500/30 bg-rose-500/5 text-rose-500' : theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+          <p className="text-[10px] font-black uppercase tracking-widest">
+            {t(status === 'ok' ? 'fleetSettings.connected' : status === 'error' ? 'fleetSettings.notSyncing' : 'fleetSettings.waiting')}
+          </p>
+          <p className="text-[10px] font-medium opacity-60 mt-1">
+            {error ? t(error.key, error.params) : (lastSyncAt ? t('fleetSettings.lastPush', { time: i18n.time(lastSyncAt, true) }) : t('fleetSettings.noPush'))}
+          </p>
+        </div>
+      )}
+    </Sheet>
+  );
+};
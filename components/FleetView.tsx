@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { FleetDevice, FleetSettings, Theme } from '../types';
+import { DeviceIcon } from './Icons';
+import { subscribeFleet, validateEndpoint } from '../services/fleetSync';
+import { I18n } from '../services/i18n';
+
+// A device that has not pushed for this long is shown as offline
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+const formatAgo = (i18n: I18n, ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? i18n.t('fleet.secondsAgo', { seconds }) : i18n.t('fleet.ago', { duration: i18n.duration(ms) });
+};
+
+export const FleetView = ({ theme, i18n, settings, localDeviceId, onConfigure, onBack }: {
+  theme: Theme;
+  i18n: I18n;
+  settings: FleetSettings;
+  localDeviceId: string;
+  onConfigure: () => void;
+  onBack: () => void;
+}) => {
+  const { t } = i18n;
+  const [devices, setDevices] = useState<FleetDevice[] | null>(null);
+  // Local time the list arrived; device ages grow from there on this clock, never compared with the receiver's
+  const [receivedAt, setReceivedAt] = useState(Date.now());
+  const [offline, setOffline] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const configured = validateEndpoint(settings.endpoint) === null;
+
+  useEffect(() => {
+    if (!configured) return;
+    setDevices(null);
+    return subscribeFleet(settings, list => {
+      const arrived = Date.now();
+      setDevices(list);
+      setReceivedAt(arrived);
+      setNow(arrived);
+      setOffline(false);
+    }, () => setOffline(true));
+  }, [configured, settings.endpoint, settings.token]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const cardClass = `rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`;
+  const rowClass = `p-4 rounded-2xl border flex items-center gap-4 ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between px-1">
+        <button onClick={onBack} className={`px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`}>
+          {t('common.back')}
+        </button>
+        <div className="text-right">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('menu.fleet')}</p>
+          <p className={`text-[8px] uppercase ${offline ? 'text-rose-500 font-black' : 'opacity-40'}`}>{configured ? (offline ? t('fleet.unreachable') : settings.endpoint) : t('fleet.notConfigured')}</p>
+        </div>
+      </div>
+
+      <section className={cardClass}>
+        <div className="flex items-center gap-3 mb-8 px-1">
+          <div className="w-10 h-10 rounded-xl bg-sky-500/10 border border-sky-500/20 flex items-center justify-center text-sky-500"><DeviceIcon className="w-5 h-5" /></div>
+          <h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{t('fleet.devices')}</h2>
+        </div>
+
+        {!configured ? (
+          <div className="text-center py-12 space-y-4">
+            <p className="text-[11px] font-medium opacity-40 max-w-xs mx-auto leading-relaxed">{t('fleet.setupNote')}</p>
+            <button onClick={onConfigure} className="text-[9px] font-black uppercase tracking-widest text-sky-500 active:scale-95 transition-transform">{t('fleet.setup')}</button>
+          </div>
+        ) : devices === null ? (
+          <div className="flex items-center justify-center gap-3 py-12 font-black text-[10px] opacity-30">
+            <div className="w-4 h-4 border-2 border-sky-500 border-t-transparent rounded-full animate-spin" /> {t('fleet.connecting')}
+          </div>
+        ) : devices.length === 0 ? (
+          <p className="text-[11px] font-medium opacity-40 text-center py-12">{t('fleet.empty')}</p>
+        ) : (
+          <div className="space-y-2">
+            {devices.map(device => {
+              const telemetry = device.telemetry;
+              const age = device.ageMs + (now - receivedAt);
+              const stale = age > STALE_AFTER_MS;
+              const state = !telemetry || stale ? 'offline' : telemetry.charging ? 'charging' : telemetry.monitoring ? 'draining' : 'idle';
+              return (
+                <div key={device.deviceId} className={`${rowClass} ${stale ? 'opacity-50' : ''}`}>
+                  <div className={`w-2 h-2 rounded-full shrink-0 ${state === 'charging' ? 'bg-emerald-400 animate-pulse' : state === 'draining' ? 'bg-rose-400 animate-pulse' : 'bg-slate-500'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black truncate">
+                      {device.name}
+                      {device.deviceId === localDeviceId && <span className="ml-2 text-[8px] font-black uppercase text-sky-500">{t('fleet.thisDevice')}</span>}
+                    </p>
+                    <p className="text-[8px] opacity-40 uppercase truncate">
+                      {t(`fleet.state.${state}`)} · {telemetry?.profileName ?? '—'}{telemetry?.simulated ? ` · ${t('fleet.simulated')}` : ''} · {formatAgo(i18n, age)} · {i18n.plural('common.sessions', device.sessionCount)}
+                    </p>
+                  </div>
+                  {telemetry && (
+                    <div className="text-right shrink-0">
+                      <p className="text-sm font-black mono">{i18n.percent(telemetry.level)}</p>
+                      <p className={`text-[9px] font-black mono ${telemetry.charging ? 'text-emerald-500' : 'opacity-40'}`}>
+                        {telemetry.monitoring && !stale ? `${i18n.watts(telemetry.watts)}W` : '—'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { GearItem, GearKind, Theme } from '../types';
+import { GEAR_KINDS, createGearItem, validateGearItem } from '../services/gearLibrary';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+import { I18n } from '../services/i18n';
+
+export const GearLibrary = ({ theme, i18n, items, onAdd, onDelete, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  items: GearItem[];
+  onAdd: (item: GearItem) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) => {
+  const { t } = i18n;
+  const [kind, setKind] = useState<GearKind>('charger');
+  const [name, setName] = useState('');
+  const [ratedWatts, setRatedWatts] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const fields = { kind, name, ratedWatts: ratedWatts.trim() ? parseFloat(ratedWatts) : null, notes };
+    const problem = validateGearItem(fields);
+    if (problem) {
+      setError(t(problem));
+      return;
+    }
+    onAdd(createGearItem(fields));
+    setName('');
+    setRatedWatts('');
+    setNotes('');
+    setError(null);
+  };
+
+  return (
+    <Sheet theme={theme} title={t('gear.title')} onClose={onClose}>
+      {GEAR_KINDS.map(k => (
+        <div key={k} className="mb-6">
+          <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 mb-3">{t(k === 'charger' ? 'gear.chargers' : 'gear.cables')}</h4>
+          <div className="space-y-2">
+            {items.filter(g => g.kind === k).length === 0 && <p className="text-[11px] font-medium opacity-40">{t('gear.none')}</p>}
+            {items.filter(g => g.kind === k).map(g => (
+              <div key={g.id} className={`p-4 rounded-2xl border flex justify-between items-center gap-3 ${theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}>
+                <div className="min-w-0">
+                  <p className="text-xs font-black truncate">{g.name}</p>
+                  <p className="text-[8px] opacity-40 uppercase mono truncate">
+                    {g.ratedWatts !== null ? t('gear.rated', { watts: i18n.number(g.ratedWatts, 0) }) : t('gear.unrated')}{g.notes ? ` · ${g.notes}` : ''}
+                  </p>
+                </div>
+                <button onClick={() => onDelete(g.id)} className="text-[8px] font-black uppercase text-rose-500 px-2 py-1">{t('common.delete')}</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 mb-3">{t('gear.addTitle')}</h4>
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <FieldLabel>{t('gear.type')}</FieldLabel>
+            <select className={fieldClass(theme)} value={kind} onChange={e => setKind(e.target.value as GearKind)}>
+              {GEAR_KINDS.map(k => <option key={k} value={k}>{t(`gear.${k}`)}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <FieldLabel>{t('gear.ratedW')}</FieldLabel>
+            <input className={fieldClass(theme)} type="number" inputMode="decimal" value={ratedWatts} onChange={e => setRatedWatts(e.target.value)} />
+          </label>
+        </div>
+        <label className="block">
+          <FieldLabel>{t('gear.name')}</FieldLabel>
+          <input className={fieldClass(theme)} value={name} onChange={e => setName(e.target.value)} placeholder={t(kind === 'charger' ? 'gear.chargerPlaceholder' : 'gear.cablePlaceholder')} />
+        </label>
+        <label className="block">
+          <FieldLabel>{t('gear.notes')}</FieldLabel>
+          <input className={fieldClass(theme)} value={notes} onChange={e => setNotes(e.target.value)} />
+        </label>
+        {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+        <button onClick={handleAdd} className="w-full py-3 rounded-xl bg-sky-500 text-white text-xs font-black uppercase tracking-widest active:scale-95 transition-transform">
+          {t(kind === 'charger' ? 'gear.add.charger' : 'gear.add.cable')}
+        </button>
+      </div>
+    </Sheet>
+  );
+};
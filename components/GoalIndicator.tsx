@@ -0,0 +1,67 @@
+import React from 'react';
+import { ChargingGoals } from '../types';
+import { ChargePlan, goalStatus } from '../services/chargingGoals';
+import { I18n } from '../services/i18n';
+
+/** Limit ticks laid over the Battery Capacity bar. */
+export const GoalMarkers = ({ goals }: { goals: ChargingGoals }) => (
+  <>
+    {[goals.lowerLimit, goals.upperLimit].map(limit => (
+      <div key={limit} className="absolute top-0 bottom-0 w-[2px] bg-emerald-400/80 z-10" style={{ left: `${limit * 100}%` }} />
+    ))}
+  </>
+);
+
+const Row = ({ label, value, accent }: { label: string; value: string; accent?: string }) => (
+  <div className="flex justify-between items-end">
+    <span className={`text-[9px] font-black ${accent ?? 'opacity-50'}`}>{label}</span>
+    <span className={`text-base font-black mono ${accent ?? ''}`}>{value}</span>
+  </div>
+);
+
+/**
+ * Coaching rows for the Battery Capacity card: when to unplug, how long the
+ * level has sat above the limit, and when to plug in for a ready-by time.
+ */
+export const GoalIndicator = ({ i18n, goals, level, charging, unplugAt, msAboveLimit, plan, now }: {
+  i18n: I18n;
+  goals: ChargingGoals;
+  level: number;
+  charging: boolean;
+  // Predicted time the upper limit is reached; null if unknown
+  unplugAt: number | null;
+  msAboveLimit: number;
+  plan: ChargePlan | null;
+  now: number;
+}) => {
+  const { t, percent: pct, time: formatClock } = i18n;
+  const status = goalStatus(level, charging, goals);
+  return (
+    <>
+      {status === 'unplug' && (
+        <Row
+          label={t('goal.unplugNow', { percent: pct(goals.upperLimit) })}
+          value={msAboveLimit > 0 ? `+${i18n.duration(msAboveLimit)}` : '✓'}
+          accent="text-amber-500"
+        />
+      )}
+      {status === 'in-range' && charging && (
+        <Row label={t('goal.unplugAt', { percent: pct(goals.upperLimit) })} value={unplugAt !== null ? formatClock(unplugAt) : '—'} accent="text-emerald-500" />
+      )}
+      {status === 'below-lower' && !charging && (
+        <Row label={t('goal.belowLower', { percent: pct(goals.lowerLimit) })} value={pct(level)} accent="text-rose-500" />
+      )}
+      {plan && plan.chargeSeconds !== 0 && (charging ? (
+        <Row
+          label={t('goal.readyBy', { time: formatClock(plan.readyAt) })}
+          value={unplugAt === null ? '—' : unplugAt <= plan.readyAt ? t('goal.onTrack') : t('goal.late', { duration: i18n.duration(unplugAt - plan.readyAt) })}
+        />
+      ) : (
+        <Row
+          label={t('goal.plugInBy', { time: formatClock(plan.readyAt) })}
+          value={plan.startBy === null ? '—' : plan.startBy <= now ? t('goal.now') : formatClock(plan.startBy)}
+        />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,114 @@
+import React from 'react';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Area, Line, ReferenceLine } from 'recharts';
+import { DeviceProfile, Theme } from '../types';
+import { BatteryIcon, ChartIcon } from './Icons';
+import { DiagnosticTiles } from './DiagnosticTiles';
+import { FieldLabel, fieldClass } from './Sheet';
+import { HEALTH_THRESHOLD_OPTIONS, HealthAssessment } from '../services/batteryHealth';
+import { I18n } from '../services/i18n';
+
+const formatTrend = (i18n: I18n, value: number | null, unit: string) =>
+  value === null ? '—' : i18n.t('common.perMonth', { value: `${value >= 0 ? '+' : '−'}${i18n.number(Math.abs(value), 1)}${unit}` });
+
+// Spread in: ReferenceLine's typings reject SVG presentation attributes written inline
+const thresholdLineStyle = { stroke: '#f43f5e', strokeDasharray: '4 4', strokeOpacity: 0.6 };
+
+export const HealthDashboard = ({ theme, i18n, assessment, profile, threshold, onThresholdChange, onBack }: {
+  theme: Theme;
+  i18n: I18n;
+  assessment: HealthAssessment | null;
+  profile: DeviceProfile;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onBack: () => void;
+}) => {
+  const cardClass = `rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`;
+
+  if (!assessment) {
+    return (
+      <div className="flex items-center justify-center gap-3 py-24 font-black text-[10px] opacity-30">
+        <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" /> {i18n.t('common.loadingSessions')}
+      </div>
+    );
+  }
+
+  const { points, healthPercent, effectiveCapacityWh } = assessment;
+  const formatCapacity = (wh: number) => i18n.capacity((wh / profile.nominalVoltage) * 1000, profile.nominalVoltage);
+  const data = points.map(p => ({
+    time: p.time,
+    health: parseFloat(p.healthPercent.toFixed(1)),
+    peak: parseFloat(p.peakWattage.toFixed(1)),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between px-1">
+        <button onClick={onBack} className={`px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`}>
+          {i18n.t('common.back')}
+        </button>
+        <div className="text-right">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-40">{i18n.t('menu.health')}</p>
+          <p className="text-[8px] opacity-40 uppercase">{profile.name}</p>
+        </div>
+      </div>
+
+      {assessment.belowThreshold && (
+        <div className="p-4 rounded-2xl border border-rose-500/30 bg-rose-500/5 text-rose-500 text-[10px] font-bold">
+          {i18n.t('health.warning', { percent: i18n.percent(healthPercent! / 100), threshold: i18n.percent(threshold / 100) })}
+        </div>
+      )}
+
+      <section className={`${cardClass} space-y-8`}>
+        <div className="flex items-center gap-3 px-1">
+          <div className="w-10 h-10 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-center text-emerald-500"><BatteryIcon className="w-5 h-5" /></div>
+          <h3 className="text-lg font-black tracking-tight uppercase italic leading-none">{i18n.t('health.estimate')}</h3>
+        </div>
+        <DiagnosticTiles theme={theme} tiles={[
+          { label: i18n.t('health.tile.health'), val: healthPercent !== null ? i18n.percent(healthPercent / 100) : '—', accent: assessment.belowThreshold ? 'drain' : 'gain' },
+          { label: i18n.t('health.tile.effective'), val: effectiveCapacityWh !== null ? formatCapacity(effectiveCapacityWh) : '—' },
+          { label: i18n.t('health.tile.rated'), val: formatCapacity(assessment.ratedCapacityWh) },
+          { label: i18n.t('health.tile.cycles'), val: i18n.number(assessment.cycles, 1) },
+          { label: i18n.t('health.tile.fadeTrend'), val: formatTrend(i18n, assessment.healthTrendPerMonth, '%') },
+          { label: i18n.t('health.tile.peakTrend'), val: formatTrend(i18n, assessment.peakTrendPerMonth, 'W') },
+          { label: i18n.t('health.tile.dataPoints'), val: i18n.number(points.length, 0) },
+          { label: i18n.t('health.tile.latestPeak'), val: points.length ? i18n.watts(points[points.length - 1].peakWattage) + 'W' : '—' },
+        ]} />
+        <label className="block max-w-[12rem]">
+          <FieldLabel>{i18n.t('health.threshold')}</FieldLabel>
+          <select className={fieldClass(theme)} value={threshold} onChange={e => onThresholdChange(Number(e.target.value))}>
+            {HEALTH_THRESHOLD_OPTIONS.map(o => <option key={o} value={o}>{i18n.t('health.thresholdOption', { percent: i18n.percent(o / 100) })}</option>)}
+          </select>
+        </label>
+        <p className="text-[10px] font-medium opacity-50 leading-relaxed">{i18n.t('health.note')}</p>
+      </section>
+
+      <section className={cardClass}>
+        <div className="flex items-center gap-3 mb-8 px-1">
+          <div className="w-10 h-10 rounded-xl bg-indigo-500/10 border border-indigo-500/20 flex items-center justify-center text-indigo-500"><ChartIcon className="w-5 h-5" /></div>
+          <h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{i18n.t('health.fade')}</h2>
+        </div>
+        {data.length > 1 ? (
+          <div className="h-64 sm:h-80 w-full overflow-hidden">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={theme === 'dark' ? '#1e293b' : '#f1f5f9'} />
+                <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={i18n.shortDate} tick={{ fontSize: 8 }} stroke={theme === 'dark' ? '#475569' : '#94a3b8'} minTickGap={32} />
+                <YAxis yAxisId="health" domain={[50, 110]} tick={{ fontSize: 8 }} tickFormatter={v => `${v}%`} stroke={theme === 'dark' ? '#475569' : '#94a3b8'} width={36} />
+                <YAxis yAxisId="peak" orientation="right" hide />
+                <Tooltip
+                  contentStyle={{ backgroundColor: theme === 'dark' ? '#1e293b' : '#ffffff', borderColor: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '16px', fontSize: '10px' }}
+                  labelFormatter={time => i18n.shortDate(Number(time))}
+                />
+                <ReferenceLine yAxisId="health" y={threshold} {...thresholdLineStyle} />
+                <Area yAxisId="health" type="monotone" dataKey="health" name={i18n.t('health.series.health')} stroke="#10b981" fill="#10b981" fillOpacity={0.1} strokeWidth={2} />
+                <Line yAxisId="peak" type="monotone" dataKey="peak" name={i18n.t('health.series.peak')} stroke="#0ea5e9" strokeWidth={1.5} dot={false} strokeDasharray="6 6" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-[11px] font-medium opacity-40 text-center py-16">{i18n.t('health.empty')}</p>
+        )}
+      </section>
+    </div>
+  );
+};
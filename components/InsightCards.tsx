@@ -0,0 +1,86 @@
+import React from 'react';
+import { ChargerGrade, InsightFlag, SessionInsight, Theme } from '../types';
+import { I18n } from '../services/i18n';
+
+const GRADE_CLASSES: Record<ChargerGrade, string> = {
+  A: 'text-emerald-500',
+  B: 'text-sky-500',
+  C: 'text-amber-500',
+  D: 'text-orange-500',
+  F: 'text-rose-500',
+};
+
+const SEVERITY_CLASSES: Record<InsightFlag['severity'], string> = {
+  info: 'border-sky-500/30 bg-sky-500/5 text-sky-500',
+  warning: 'border-amber-500/30 bg-amber-500/5 text-amber-500',
+  critical: 'border-rose-500/30 bg-rose-500/5 text-rose-500',
+};
+
+export const InsightCards = ({ theme, i18n, insight, loading, placeholder, onRun }: {
+  theme: Theme;
+  i18n: I18n;
+  insight?: SessionInsight;
+  loading: boolean;
+  placeholder: string;
+  onRun?: () => void;
+}) => {
+  const { t } = i18n;
+  const tileClass = `p-4 rounded-2xl border ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-white/60 border-slate-100'}`;
+
+  return (
+    <div className={`rounded-2xl p-6 border space-y-4 ${theme === 'dark' ? 'bg-indigo-500/5 border-indigo-500/20' : 'bg-indigo-500/[0.02] border-indigo-500/10'}`}>
+      <div className="flex items-center gap-2 text-indigo-500">
+        <div className="w-1.5 h-1.5 rounded-full bg-current" />
+        <span className="text-[9px] font-black uppercase">{t('insight.title')}</span>
+        {insight && !loading && (
+          <span className="ml-auto text-[8px] font-black uppercase opacity-50">
+            {insight.fellBack ? t('insight.fallback', { provider: t(`insights.provider.${insight.provider}`) }) : t(`insights.provider.${insight.provider}`)}
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-3 font-black text-[10px] opacity-30"><div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" /> {t('insight.analyzing')}</div>
+      ) : insight ? (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className={tileClass}>
+              <p className="text-[7px] font-black uppercase opacity-40 mb-1">{t('insight.grade')}</p>
+              <p className={`text-3xl font-black mono leading-none ${GRADE_CLASSES[insight.grade]}`}>{insight.grade}</p>
+            </div>
+            <div className={tileClass}>
+              <p className="text-[7px] font-black uppercase opacity-40 mb-1">{t('insight.protocol')}</p>
+              <p className="text-xs font-black leading-tight">{t(`protocol.${insight.protocolTier}`)}</p>
+            </div>
+          </div>
+          <p className="text-sm font-bold opacity-80 italic leading-snug">{insight.summary}</p>
+          {insight.healthFlags.length > 0 && (
+            <div className="space-y-2">
+              {insight.healthFlags.map((flag, i) => (
+                <div key={i} className={`px-4 py-3 rounded-xl border text-[10px] font-bold ${SEVERITY_CLASSES[flag.severity]}`}>
+                  <span className="font-black uppercase mr-2">{t(`severity.${flag.severity}`)}</span>{flag.message}
+                </div>
+              ))}
+            </div>
+          )}
+          {insight.recommendations.length > 0 && (
+            <div className={tileClass}>
+              <p className="text-[7px] font-black uppercase opacity-40 mb-2">{t('insight.recommendations')}</p>
+              <ul className="space-y-1.5">
+                {insight.recommendations.map((r, i) => <li key={i} className="text-[11px] font-medium leading-snug">• {r}</li>)}
+              </ul>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm font-bold opacity-80 italic leading-snug">{placeholder}</p>
+      )}
+
+      {onRun && !loading && (
+        <button onClick={onRun} className="w-full py-2.5 rounded-xl border border-indigo-500/30 text-indigo-500 text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform">
+          {t(insight ? 'insight.rerun' : 'insight.run')}
+        </button>
+      )}
+    </div>
+  );
+};
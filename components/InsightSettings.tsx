@@ -0,0 +1,55 @@
+import React from 'react';
+import { InsightProviderId, InsightSettings as InsightSettingsValue, Theme } from '../types';
+import { INSIGHT_PROVIDERS } from '../services/insightProviders';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+import { I18n } from '../services/i18n';
+
+export const InsightSettings = ({ theme, i18n, settings, onChange, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  settings: InsightSettingsValue;
+  onChange: (settings: InsightSettingsValue) => void;
+  onClose: () => void;
+}) => (
+  <Sheet theme={theme} title={i18n.t('insights.title')} onClose={onClose}>
+    <div className="space-y-2 mb-6">
+      {(Object.keys(INSIGHT_PROVIDERS) as InsightProviderId[]).map(id => {
+        const provider = INSIGHT_PROVIDERS[id];
+        const selected = settings.provider === id;
+        const available = provider.isAvailable(settings);
+        return (
+          <button
+            key={id}
+            onClick={() => onChange({ ...settings, provider: id })}
+            className={`w-full text-left p-4 rounded-2xl border transition-all ${selected ? 'border-sky-500 bg-sky-500/5' : theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}
+          >
+            <div className="flex justify-between items-center gap-3">
+              <p className="text-xs font-black">{i18n.t(`insights.provider.${id}`)}</p>
+              {!available && <span className="text-[8px] font-black uppercase text-amber-500">{i18n.t('insights.unavailable')}</span>}
+            </div>
+            <p className="text-[10px] font-medium opacity-50 mt-1">{i18n.t(`insights.note.${id}`)}</p>
+          </button>
+        );
+      })}
+    </div>
+
+    {settings.provider === 'openai-compatible' && (
+      <div className="space-y-3 mb-6">
+        <label className="block">
+          <FieldLabel>{i18n.t('insights.baseUrl')}</FieldLabel>
+          <input className={fieldClass(theme)} type="url" placeholder="http://localhost:11434/v1" value={settings.openAiBaseUrl} onChange={e => onChange({ ...settings, openAiBaseUrl: e.target.value })} />
+        </label>
+        <label className="block">
+          <FieldLabel>{i18n.t('insights.model')}</FieldLabel>
+          <input className={fieldClass(theme)} type="text" placeholder="llama3.2" value={settings.openAiModel} onChange={e => onChange({ ...settings, openAiModel: e.target.value })} />
+        </label>
+        <label className="block">
+          <FieldLabel>{i18n.t('insights.apiKey')}</FieldLabel>
+          <input className={fieldClass(theme)} type="password" autoComplete="off" value={settings.openAiApiKey} onChange={e => onChange({ ...settings, openAiApiKey: e.target.value })} />
+        </label>
+      </div>
+    )}
+
+    <p className="text-[10px] font-medium opacity-50 leading-relaxed">{i18n.t('insights.fallbackNote')}</p>
+  </Sheet>
+);
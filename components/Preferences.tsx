@@ -0,0 +1,66 @@
+import React from 'react';
+import { Locale, Preferences as PreferencesValue, Theme } from '../types';
+import { I18n, LOCALE_LABELS } from '../services/i18n';
+import { PRECISION_OPTIONS } from '../services/preferences';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+
+export const Preferences = ({ theme, i18n, prefs, sample, onChange, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  prefs: PreferencesValue;
+  // Live reading shown as a preview of the chosen formats
+  sample: { time: number; watts: number; charge: string };
+  onChange: (prefs: PreferencesValue) => void;
+  onClose: () => void;
+}) => {
+  const { t } = i18n;
+  const chipClass = (active: boolean) => `flex-1 px-3 py-2.5 rounded-xl border text-[10px] font-black uppercase tracking-widest active:scale-95 transition-transform ${active ? 'border-sky-500 text-sky-500 bg-sky-500/5' : theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`;
+
+  return (
+    <Sheet theme={theme} title={t('prefs.title')} onClose={onClose}>
+      <div className="space-y-4 mb-6">
+        <label className="block">
+          <FieldLabel>{t('prefs.language')}</FieldLabel>
+          <select className={fieldClass(theme)} value={prefs.locale} onChange={e => onChange({ ...prefs, locale: e.target.value as Locale })}>
+            {(Object.keys(LOCALE_LABELS) as Locale[]).map(locale => <option key={locale} value={locale}>{LOCALE_LABELS[locale]}</option>)}
+          </select>
+        </label>
+        <div>
+          <FieldLabel>{t('prefs.timeFormat')}</FieldLabel>
+          <div className="flex gap-2">
+            {(['12h', '24h'] as const).map(cycle => (
+              <button key={cycle} onClick={() => onChange({ ...prefs, hourCycle: cycle })} className={chipClass(prefs.hourCycle === cycle)}>
+                {t(cycle === '12h' ? 'prefs.12h' : 'prefs.24h')}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <FieldLabel>{t('prefs.capacityUnit')}</FieldLabel>
+          <div className="flex gap-2">
+            {(['mAh', 'Wh'] as const).map(unit => (
+              <button key={unit} onClick={() => onChange({ ...prefs, capacityUnit: unit })} className={chipClass(prefs.capacityUnit === unit)}>
+                {unit}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <FieldLabel>{t('prefs.precision')}</FieldLabel>
+          <div className="flex gap-2">
+            {PRECISION_OPTIONS.map(digits => (
+              <button key={digits} onClick={() => onChange({ ...prefs, precision: digits })} className={chipClass(prefs.precision === digits)}>
+                {digits}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className={`p-4 rounded-2xl border ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+        <FieldLabel>{t('prefs.preview')}</FieldLabel>
+        <p className="text-sm font-black mono">{i18n.dateTime(sample.time)} · {i18n.watts(sample.watts)}W · {sample.charge}</p>
+      </div>
+    </Sheet>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { BatteryChemistry, DeviceProfile, Theme } from '../types';
+import { CHEMISTRY_LABELS, capacityWh, createProfile, isPresetProfile, validateProfile } from '../services/deviceProfiles';
+import { CheckIcon } from './Icons';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+import { I18n } from '../services/i18n';
+
+export const ProfilePicker = ({ theme, i18n, profiles, activeId, onSelect, onAdd, onDelete, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  profiles: DeviceProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: (profile: DeviceProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) => {
+  const { t } = i18n;
+  const [name, setName] = useState('');
+  const [capacityMah, setCapacityMah] = useState('4000');
+  const [nominalVoltage, setNominalVoltage] = useState('3.85');
+  const [chemistry, setChemistry] = useState<BatteryChemistry | ''>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const fields = {
+      name,
+      capacityMah: parseFloat(capacityMah),
+      nominalVoltage: parseFloat(nominalVoltage),
+      ...(chemistry ? { chemistry } : {})
+    };
+    const problem = validateProfile(fields);
+    if (problem) {
+      setError(t(problem));
+      return;
+    }
+    onAdd(createProfile(fields));
+    setName('');
+    setError(null);
+  };
+
+  return (
+    <Sheet theme={theme} title={t('profile.title')} onClose={onClose}>
+      <div className="space-y-2 mb-8">
+        {profiles.map(p => (
+          <div key={p.id} className={`p-4 rounded-2xl border flex justify-between items-center ${p.id === activeId ? 'border-sky-500/60 bg-sky-500/5' : theme === 'dark' ? 'border-slate-700' : 'border-slate-200'}`}>
+            <button onClick={() => onSelect(p.id)} className="flex-1 flex items-center gap-3 text-left">
+              <div className={`w-5 h-5 rounded-full border flex items-center justify-center ${p.id === activeId ? 'bg-sky-500 border-sky-500 text-white' : 'border-slate-500/40'}`}>
+                {p.id === activeId && <CheckIcon className="w-3 h-3" />}
+              </div>
+              <div>
+                <p className="text-xs font-black">{p.name}</p>
+                <p className="text-[8px] opacity-40 uppercase mono">
+                  {i18n.number(p.capacityMah, 0)} mAh · {i18n.number(p.nominalVoltage, 2)}V · {i18n.number(capacityWh(p), 2)} Wh{p.chemistry ? ` · ${CHEMISTRY_LABELS[p.chemistry]}` : ''}
+                </p>
+              </div>
+            </button>
+            {!isPresetProfile(p.id) && (
+              <button onClick={() => onDelete(p.id)} className="text-[8px] font-black uppercase text-rose-500 px-2 py-1">{t('common.delete')}</button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 mb-3">{t('profile.custom')}</h4>
+      <div className="space-y-3">
+        <label className="block">
+          <FieldLabel>{t('profile.name')}</FieldLabel>
+          <input className={fieldClass(theme)} value={name} onChange={e => setName(e.target.value)} placeholder={t('profile.namePlaceholder')} />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <FieldLabel>{t('profile.ratedMah')}</FieldLabel>
+            <input className={fieldClass(theme)} type="number" inputMode="numeric" value={capacityMah} onChange={e => setCapacityMah(e.target.value)} />
+          </label>
+          <label className="block">
+            <FieldLabel>{t('profile.nominalV')}</FieldLabel>
+            <input className={fieldClass(theme)} type="number" inputMode="decimal" step="0.01" value={nominalVoltage} onChange={e => setNominalVoltage(e.target.value)} />
+          </label>
+        </div>
+        <label className="block">
+          <FieldLabel>{t('profile.chemistry')}</FieldLabel>
+          <select className={fieldClass(theme)} value={chemistry} onChange={e => setChemistry(e.target.value as BatteryChemistry | '')}>
+            <option value="">{t('profile.unspecified')}</option>
+            {(Object.keys(CHEMISTRY_LABELS) as BatteryChemistry[]).map(c => <option key={c} value={c}>{CHEMISTRY_LABELS[c]}</option>)}
+          </select>
+        </label>
+        {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+        <button onClick={handleAdd} className="w-full py-3 rounded-xl bg-sky-500 text-white text-xs font-black uppercase tracking-widest active:scale-95 transition-transform">
+          {t('profile.add')}
+        </button>
+      </div>
+    </Sheet>
+  );
+};
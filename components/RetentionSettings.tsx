@@ -0,0 +1,55 @@
+import React from 'react';
+import { RetentionPolicy, Theme } from '../types';
+import { Sheet, FieldLabel, fieldClass } from './Sheet';
+import { I18n } from '../services/i18n';
+
+const COUNT_OPTIONS = [null, 25, 50, 100, 250, 500];
+const AGE_OPTIONS = [null, 7, 30, 90, 180, 365];
+const SIZE_OPTIONS = [null, 5, 10, 25, 50, 100];
+
+const LimitSelect = ({ theme, i18n, label, unit, value, options, onChange }: {
+  theme: Theme;
+  i18n: I18n;
+  label: string;
+  unit: 'retention.maxSessionsValue' | 'retention.maxAgeValue' | 'retention.maxSizeValue';
+  value: number | null;
+  options: (number | null)[];
+  onChange: (value: number | null) => void;
+}) => (
+  <label className="block">
+    <FieldLabel>{label}</FieldLabel>
+    <select className={fieldClass(theme)} value={value ?? ''} onChange={e => onChange(e.target.value ? Number(e.target.value) : null)}>
+      {options.map(o => <option key={o ?? 'none'} value={o ?? ''}>{o === null ? i18n.t('retention.unlimited') : i18n.t(unit, { count: o })}</option>)}
+    </select>
+  </label>
+);
+
+export const RetentionSettings = ({ theme, i18n, policy, usage, onChange, onClose }: {
+  theme: Theme;
+  i18n: I18n;
+  policy: RetentionPolicy;
+  usage: { count: number; bytes: number } | null;
+  onChange: (policy: RetentionPolicy) => void;
+  onClose: () => void;
+}) => (
+  <Sheet theme={theme} title={i18n.t('retention.title')} onClose={onClose}>
+    {usage && (
+      <div className={`p-4 rounded-2xl border mb-6 flex justify-between ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+        <div>
+          <p className="text-[7px] font-black uppercase opacity-40 mb-1">{i18n.t('retention.sessions')}</p>
+          <p className="text-lg font-black mono">{i18n.number(usage.count, 0)}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-[7px] font-black uppercase opacity-40 mb-1">{i18n.t('retention.size')}</p>
+          <p className="text-lg font-black mono">{i18n.number(usage.bytes / 1024 / 1024, 2)} MB</p>
+        </div>
+      </div>
+    )}
+    <p className="text-[10px] font-medium opacity-50 mb-4 leading-relaxed">{i18n.t('retention.note')}</p>
+    <div className="space-y-3">
+      <LimitSelect theme={theme} i18n={i18n} label={i18n.t('retention.maxSessions')} unit="retention.maxSessionsValue" value={policy.maxSessions} options={COUNT_OPTIONS} onChange={maxSessions => onChange({ ...policy, maxSessions })} />
+      <LimitSelect theme={theme} i18n={i18n} label={i18n.t('retention.maxAge')} unit="retention.maxAgeValue" value={policy.maxAgeDays} options={AGE_OPTIONS} onChange={maxAgeDays => onChange({ ...policy, maxAgeDays })} />
+      <LimitSelect theme={theme} i18n={i18n} label={i18n.t('retention.maxSize')} unit="retention.maxSizeValue" value={policy.maxSizeMb} options={SIZE_OPTIONS} onChange={maxSizeMb => onChange({ ...policy, maxSizeMb })} />
+    </div>
+  </Sheet>
+);
@@ -0,0 +1,150 @@
+import React from 'react';
+import { GearItem, GearKind, StoredSession, Theme } from '../types';
+import { BoltIcon, ChartIcon } from './Icons';
+import { DiagnosticTiles, sessionTiles } from './DiagnosticTiles';
+import { InsightCards } from './InsightCards';
+import { FieldLabel, fieldClass } from './Sheet';
+import { sessionMode } from '../services/sessionStatistics';
+import { VOLTAGE_TIER_META, analyzeChargeCurve } from '../services/chargeCurve';
+import { PhaseLegend, SeriesLegend, TelemetryChart, TelemetrySeries } from './TelemetryChart';
+import { I18n } from '../services/i18n';
+
+const DETAIL_SERIES: TelemetrySeries[] = ['wattage', 'voltage', 'amperage', 'level'];
+
+// Positive when the target was reached later than predicted
+const formatOffset = (i18n: I18n, ms: number) => `${ms >= 0 ? '+' : '−'}${i18n.duration(Math.abs(ms))}`;
+
+export const SessionDetail = ({ theme, i18n, session, gear, analyzing, onBack, onExport, onAnalyze, onTag }: {
+  theme: Theme;
+  i18n: I18n;
+  session: StoredSession | null;
+  gear: GearItem[];
+  analyzing: boolean;
+  onBack: () => void;
+  onExport: (format: 'json' | 'csv') => void;
+  onAnalyze: () => void;
+  onTag: (tags: { chargerId?: string; cableId?: string }) => void;
+}) => {
+  const { t } = i18n;
+  const cardClass = `rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`;
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-center gap-3 py-24 font-black text-[10px] opacity-30">
+        <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" /> {t('detail.loading')}
+      </div>
+    );
+  }
+
+  const { stats, logs } = session;
+  // Sessions recorded before curve analysis existed are analyzed on open
+  const curve = sessionMode(stats) === 'charging'
+    ? (stats.phases ? { phases: stats.phases, voltageTier: stats.voltageTier } : analyzeChargeCurve(logs))
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between px-1">
+        <button onClick={onBack} className={`px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`}>
+          {t('common.back')}
+        </button>
+        <div className="text-right">
+          <p className="text-[10px] font-black mono">{i18n.dateTime(stats.startTime)}</p>
+          <p className="text-[8px] opacity-40 uppercase">
+            {sessionMode(stats) === 'discharging' ? `${t('detail.drain')} · ` : ''}{stats.endTime ? i18n.duration(stats.endTime - stats.startTime) : t('detail.inProgress')}{stats.profile ? ` · ${stats.profile.name}` : ''}{curve?.voltageTier ? ` · ${VOLTAGE_TIER_META[curve.voltageTier].label}` : ''}
+          </p>
+        </div>
+      </div>
+
+      <section className={cardClass}>
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-10 px-1">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-indigo-500/10 border border-indigo-500/20 flex items-center justify-center text-indigo-500"><ChartIcon className="w-5 h-5" /></div>
+            <div><h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{t('detail.replay')}</h2></div>
+          </div>
+          <SeriesLegend i18n={i18n} series={DETAIL_SERIES} />
+        </div>
+        {logs.length > 0 ? (
+          <div className="space-y-4">
+            <TelemetryChart theme={theme} i18n={i18n} sessionId={stats.startTime} logs={logs} series={DETAIL_SERIES} zoomable phases={curve?.phases} gaps={stats.gaps} />
+            {(curve || stats.gaps) && <div className="px-1"><PhaseLegend i18n={i18n} phases={curve?.phases ?? []} gaps={stats.gaps} /></div>}
+          </div>
+        ) : (
+          <p className="text-[11px] font-medium opacity-40 text-center py-16">{t('detail.noSamples')}</p>
+        )}
+      </section>
+
+      <section className={`${cardClass} space-y-8`}>
+        <div className="flex items-center gap-3 px-1">
+          <div className="w-10 h-10 rounded-xl bg-emerald-500/10 border border-emerald-500/20 flex items-center justify-center text-emerald-500"><BoltIcon className="w-5 h-5" /></div>
+          <h3 className="text-lg font-black tracking-tight uppercase italic leading-none">{t('diagnostic.summary')}</h3>
+        </div>
+        <DiagnosticTiles theme={theme} tiles={sessionTiles(i18n, stats)} />
+        {stats.goal && (
+          <div className={`p-4 rounded-2xl border flex justify-between items-center ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+            <div>
+              <p className="text-[10px] font-black uppercase">{t('detail.goal', { lower: i18n.percent(stats.goal.lowerLimit), upper: i18n.percent(stats.goal.upperLimit) })}</p>
+              <p className="text-[8px] opacity-40 uppercase">{t('detail.goalPeak', { percent: i18n.percent(stats.goal.peakLevel) })}{stats.goal.startedBelowLower ? ` · ${t('detail.startedBelow')}` : ''}</p>
+            </div>
+            <span className={`text-sm font-black mono ${stats.goal.msAboveLimit === 0 ? 'text-emerald-500' : 'text-amber-500'}`}>
+              {stats.goal.msAboveLimit === 0 ? t('detail.withinLimit') : t('detail.over', { duration: i18n.duration(stats.goal.msAboveLimit) })}
+            </span>
+          </div>
+        )}
+        {stats.predictions && stats.predictions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-[10px] font-black uppercase tracking-widest opacity-40 px-1">{t('detail.accuracy')}</h4>
+            {stats.predictions.map(p => (
+              <div key={p.target} className={`p-4 rounded-2xl border flex justify-between items-center ${theme === 'dark' ? 'bg-slate-800/40 border-slate-700/30' : 'bg-slate-50 border-slate-100'}`}>
+                <div>
+                  <p className="text-[10px] font-black mono uppercase">{t('detail.predicted', { target: p.target >= 1 ? t('detail.full') : i18n.percent(p.target), time: i18n.time(p.predictedAt) })}</p>
+                  <p className="text-[8px] opacity-40 uppercase">{t('detail.madeAt', { percent: i18n.percent(p.madeAtLevel), time: i18n.time(p.madeAt) })}</p>
+                </div>
+                <span className={`text-sm font-black mono ${p.actualAt === null ? 'opacity-40' : Math.abs(p.actualAt - p.predictedAt) <= 5 * 60000 ? 'text-emerald-500' : 'text-amber-500'}`}>
+                  {p.actualAt === null ? t('detail.notReached').toUpperCase() : formatOffset(i18n, p.actualAt - p.predictedAt)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {sessionMode(stats) === 'charging' && (
+          <div className="grid grid-cols-2 gap-3">
+            {(['charger', 'cable'] as GearKind[]).map(kind => {
+              const field = kind === 'charger' ? 'chargerId' : 'cableId';
+              return (
+                <label key={kind} className="block">
+                  <FieldLabel>{t(`gear.${kind}`)}</FieldLabel>
+                  <select
+                    className={fieldClass(theme)}
+                    value={stats[field] ?? ''}
+                    onChange={e => onTag({ chargerId: stats.chargerId, cableId: stats.cableId, [field]: e.target.value || undefined })}
+                  >
+                    <option value="">{t('detail.untagged')}</option>
+                    {gear.filter(g => g.kind === kind).map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                  </select>
+                </label>
+              );
+            })}
+          </div>
+        )}
+        {sessionMode(stats) === 'charging' && (
+          <InsightCards
+            theme={theme}
+            i18n={i18n}
+            insight={stats.insight}
+            loading={analyzing}
+            placeholder={t('detail.noAnalysis')}
+            onRun={onAnalyze}
+          />
+        )}
+        <div className="flex gap-3">
+          {(['json', 'csv'] as const).map(format => (
+            <button key={format} onClick={() => onExport(format)} className={`flex-1 py-3 rounded-xl border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`}>
+              {t('common.export', { format: format.toUpperCase() })}
+            </button>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
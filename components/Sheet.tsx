@@ -0,0 +1,29 @@
+import React from 'react';
+import { Theme } from '../types';
+import { XMarkIcon } from './Icons';
+
+export const Sheet = ({ theme, title, onClose, children }: {
+  theme: Theme;
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+}) => (
+  <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm" onClick={onClose}>
+    <div onClick={e => e.stopPropagation()} className={`w-full max-w-md max-h-[85vh] overflow-y-auto rounded-t-[2rem] sm:rounded-[2rem] p-6 border shadow-2xl ${theme === 'dark' ? 'bg-[#1e293b] border-slate-700 text-slate-100' : 'bg-white border-slate-200 text-slate-900'}`}>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-base font-black uppercase italic tracking-tight">{title}</h3>
+        <button onClick={onClose} className={`p-2 rounded-xl border ${theme === 'dark' ? 'border-slate-700 active:bg-slate-700' : 'border-slate-200 active:bg-slate-100'}`}>
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {children}
+    </div>
+  </div>
+);
+
+export const fieldClass = (theme: Theme) =>
+  `w-full px-3 py-2.5 rounded-xl border text-sm font-bold mono outline-none focus:border-sky-500 ${theme === 'dark' ? 'bg-slate-900 border-slate-700' : 'bg-slate-50 border-slate-200'}`;
+
+export const FieldLabel = ({ children }: { children: React.ReactNode }) => (
+  <span className="block text-[8px] font-black uppercase tracking-widest opacity-40 mb-1.5">{children}</span>
+);
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Theme } from '../types';
+import { SIMULATOR_SPEEDS } from '../services/batterySimulator';
+import { I18n } from '../services/i18n';
+
+export const SimulatorControls = ({ theme, i18n, charging, speed, onChargingChange, onSpeedChange, onExit }: {
+  theme: Theme;
+  i18n: I18n;
+  charging: boolean;
+  speed: number;
+  onChargingChange: (charging: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}) => {
+  const buttonClass = `px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`;
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 rounded-2xl border border-amber-500/30 bg-amber-500/5">
+      <span className="text-[9px] font-black uppercase tracking-widest text-amber-500 mr-auto">{i18n.t('simulator.title')}</span>
+      <button onClick={() => onChargingChange(!charging)} className={buttonClass}>{i18n.t(charging ? 'simulator.unplug' : 'simulator.plugIn')}</button>
+      <select
+        value={speed}
+        onChange={e => onSpeedChange(Number(e.target.value))}
+        className={`px-2 py-1.5 rounded-lg border text-[9px] font-black uppercase bg-transparent ${theme === 'dark' ? 'border-slate-700/50' : 'border-slate-200'}`}
+      >
+        {SIMULATOR_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <button onClick={onExit} className={buttonClass}>{i18n.t('simulator.exit')}</button>
+    </div>
+  );
+};
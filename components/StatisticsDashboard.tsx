@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, BarChart, Bar, Line, ScatterChart, Scatter } from 'recharts';
+import { GearItem, SessionMode, StoredSession, Theme } from '../types';
+import { ChartIcon } from './Icons';
+import { DiagnosticTiles } from './DiagnosticTiles';
+import { FieldLabel, fieldClass } from './Sheet';
+import { now as clockNow } from '../services/clock';
+import { I18n } from '../services/i18n';
+import {
+  AnalyticsFilter, WATTAGE_BIN, dailyAggregates, filterSessions, lastDaysRange, levelDistribution, rangeDays, startOfDay,
+  summarize, timeOfDayHeatmap, wattageHistogram
+} from '../services/sessionAnalytics';
+
+const RANGE_PRESETS = [7, 30, 90, 365];
+// 1 January 2024 was a Monday, matching the heatmap's Monday-first weekday index
+const weekdayNames = (i18n: I18n) => {
+  const format = new Intl.DateTimeFormat(i18n.locale, { weekday: 'short' });
+  return Array.from({ length: 7 }, (_, d) => format.format(new Date(2024, 0, 1 + d)));
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toDateInput = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+const fromDateInput = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+export const StatisticsDashboard = ({ theme, i18n, sessions, gear, onBack }: {
+  theme: Theme;
+  i18n: I18n;
+  sessions: StoredSession[] | null;
+  gear: GearItem[];
+  onBack: () => void;
+}) => {
+  const [filter, setFilter] = useState<AnalyticsFilter>(() => ({
+    ...lastDaysRange(30, clockNow()),
+    mode: 'charging',
+    chargerId: null,
+    profileId: null,
+  }));
+
+  const cardClass = `rounded-[2rem] p-6 md:p-8 border transition-all ${theme === 'dark' ? 'bg-slate-900 border-slate-800 shadow-2xl' : 'bg-white border-slate-200 shadow-lg'}`;
+  const axisColor = theme === 'dark' ? '#475569' : '#94a3b8';
+  const gridColor = theme === 'dark' ? '#1e293b' : '#f1f5f9';
+  const tooltipStyle = { backgroundColor: theme === 'dark' ? '#1e293b' : '#ffffff', borderColor: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '16px', fontSize: '10px' };
+  const chipClass = (active: boolean) => `px-3 py-1.5 rounded-lg border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${active ? 'border-sky-500 text-sky-500 bg-sky-500/5' : theme === 'dark' ? 'border-slate-700/50' : 'border-slate-200'}`;
+
+  if (!sessions) {
+    return (
+      <div className="flex items-center justify-center gap-3 py-24 font-black text-[10px] opacity-30">
+        <div className="w-4 h-4 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" /> {i18n.t('common.loadingSessions')}
+      </div>
+    );
+  }
+
+  const { t } = i18n;
+  const formatDay = i18n.shortDate;
+  const weekdays = weekdayNames(i18n);
+  const hourLabel = (hour: number) => i18n.time(new Date(2024, 0, 1, hour).getTime());
+  const chargers = gear.filter(g => g.kind === 'charger');
+  const profiles = [...new Map(sessions.flatMap(s => (s.stats.profile ? [[s.stats.profile.id, s.stats.profile.name] as const] : []))).entries()];
+  const selected = filterSessions(sessions, filter);
+  const summary = summarize(selected);
+  const draining = filter.mode === 'discharging';
+  const days = dailyAggregates(selected, filter.from, filter.to).map(d => ({ ...d, energyWh: parseFloat(d.energyWh.toFixed(2)) }));
+  const levels = levelDistribution(selected);
+  const histogram = wattageHistogram(selected).map(b => ({ ...b, minutes: parseFloat(b.minutes.toFixed(1)) }));
+  const heatmap = timeOfDayHeatmap(selected);
+  const presetDays = filter.to === startOfDay(clockNow()) ? rangeDays(filter.from, filter.to) : null;
+
+  const chartCard = (title: string, empty: boolean, chart: React.ReactNode) => (
+    <section className={cardClass}>
+      <div className="flex items-center gap-3 mb-8 px-1">
+        <div className="w-10 h-10 rounded-xl bg-indigo-500/10 border border-indigo-500/20 flex items-center justify-center text-indigo-500"><ChartIcon className="w-5 h-5" /></div>
+        <h2 className="text-lg font-black tracking-tight uppercase italic leading-none">{title}</h2>
+      </div>
+      {empty ? (
+        <p className="text-[11px] font-medium opacity-40 text-center py-12">{t('stats.empty')}</p>
+      ) : (
+        <div className="h-56 sm:h-72 w-full overflow-hidden">
+          <ResponsiveContainer width="100%" height="100%">{chart}</ResponsiveContainer>
+        </div>
+      )}
+    </section>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between px-1">
+        <button onClick={onBack} className={`px-4 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform ${theme === 'dark' ? 'border-slate-700/50 active:bg-slate-800' : 'border-slate-200 active:bg-slate-100'}`}>
+          {i18n.t('common.back')}
+        </button>
+        <div className="text-right">
+          <p className="text-[10px] font-black uppercase tracking-widest opacity-40">{t('menu.statistics')}</p>
+          <p className="text-[8px] opacity-40 uppercase">{formatDay(filter.from)} – {formatDay(filter.to)}</p>
+        </div>
+      </div>
+
+      <section className={`${cardClass} space-y-4`}>
+        <div className="flex flex-wrap gap-2">
+          {RANGE_PRESETS.map(n => (
+            <button key={n} onClick={() => setFilter({ ...filter, ...lastDaysRange(n, clockNow()) })} className={chipClass(presetDays === n)}>
+              {n === 365 ? t('stats.range.year') : t('stats.range.days', { count: n })}
+            </button>
+          ))}
+          <span className="mx-1" />
+          {(['charging', 'discharging'] as SessionMode[]).map(mode => (
+            <button key={mode} onClick={() => setFilter({ ...filter, mode })} className={chipClass(filter.mode === mode)}>
+              {t(`stats.mode.${mode}`)}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <FieldLabel>{t('stats.from')}</FieldLabel>
+            <input className={fieldClass(theme)} type="date" value={toDateInput(filter.from)} max={toDateInput(filter.to)} onChange={e => e.target.value && setFilter({ ...filter, from: fromDateInput(e.target.value) })} />
+          </label>
+          <label className="block">
+            <FieldLabel>{t('stats.to')}</FieldLabel>
+            <input className={fieldClass(theme)} type="date" value={toDateInput(filter.to)} min={toDateInput(filter.from)} onChange={e => e.target.value && setFilter({ ...filter, to: fromDateInput(e.target.value) })} />
+          </label>
+          {chargers.length > 0 && (
+            <label className="block">
+              <FieldLabel>{t('stats.charger')}</FieldLabel>
+              <select className={fieldClass(theme)} value={filter.chargerId ?? ''} onChange={e => setFilter({ ...filter, chargerId: e.target.value || null })}>
+                <option value="">{t('stats.allChargers')}</option>
+                {chargers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </label>
+          )}
+          {profiles.length > 1 && (
+            <label className="block">
+              <FieldLabel>{t('stats.device')}</FieldLabel>
+              <select className={fieldClass(theme)} value={filter.profileId ?? ''} onChange={e => setFilter({ ...filter, profileId: e.target.value || null })}>
+                <option value="">{t('stats.allDevices')}</option>
+                {profiles.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+      </section>
+
+      <DiagnosticTiles theme={theme} tiles={[
+        { label: t('stats.tile.sessions'), val: i18n.number(summary.sessions, 0) },
+        { label: t(draining ? 'stats.tile.totalDrained' : 'stats.tile.totalCharged'), val: i18n.number(summary.energyWh, 1) + 'Wh' },
+        { label: t('stats.tile.avgLength'), val: summary.avgDurationMs !== null ? i18n.duration(summary.avgDurationMs) : '—' },
+        { label: t(draining ? 'stats.tile.avgDrain' : 'stats.tile.avgGain'), val: summary.avgNetLevel !== null ? i18n.percent(summary.avgNetLevel) : '—', accent: draining ? 'drain' : 'gain' },
+      ]} />
+
+      {chartCard(t('stats.perDay'), selected.length === 0, (
+        <ComposedChart data={days}>
+          <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={gridColor} />
+          <XAxis dataKey="day" tickFormatter={formatDay} tick={{ fontSize: 8 }} stroke={axisColor} minTickGap={24} />
+          <YAxis yAxisId="count" allowDecimals={false} tick={{ fontSize: 8 }} stroke={axisColor} width={24} />
+          <YAxis yAxisId="energy" orientation="right" tick={{ fontSize: 8 }} tickFormatter={v => `${v}Wh`} stroke={axisColor} width={40} />
+          <Tooltip contentStyle={tooltipStyle} labelFormatter={day => formatDay(Number(day))} />
+          <Bar yAxisId="count" dataKey="sessions" name={t('stats.series.sessions')} fill="#6366f1" radius={[4, 4, 0, 0]} />
+          <Line yAxisId="energy" type="monotone" dataKey="energyWh" name={t('stats.series.energy')} stroke="#10b981" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      ))}
+
+      {chartCard(t('stats.levels'), selected.length === 0, (
+        <BarChart data={levels}>
+          <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={gridColor} />
+          <XAxis dataKey="label" tick={{ fontSize: 8 }} stroke={axisColor} tickFormatter={v => `${v}%`} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 8 }} stroke={axisColor} width={24} />
+          <Tooltip contentStyle={tooltipStyle} labelFormatter={label => `${label}%`} />
+          <Bar dataKey="start" name={t('stats.series.started')} fill="#f59e0b" radius={[4, 4, 0, 0]} />
+          <Bar dataKey="end" name={t('stats.series.ended')} fill="#0ea5e9" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      ))}
+
+      {chartCard(t('stats.wattage'), histogram.length === 0, (
+        <BarChart data={histogram}>
+          <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={gridColor} />
+          <XAxis dataKey="watts" tick={{ fontSize: 8 }} stroke={axisColor} tickFormatter={v => `${v}W`} />
+          <YAxis tick={{ fontSize: 8 }} stroke={axisColor} tickFormatter={v => `${v}m`} width={32} />
+          <Tooltip contentStyle={tooltipStyle} labelFormatter={watts => `${watts}–${Number(watts) + WATTAGE_BIN} W`} />
+          <Bar dataKey="minutes" name={t('stats.series.minutes')} fill="#0ea5e9" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      ))}
+
+      {chartCard(t('stats.timeOfDay'), heatmap.length === 0, (
+        <ScatterChart>
+          <CartesianGrid strokeDasharray="8 8" stroke={gridColor} />
+          <XAxis dataKey="hour" type="number" domain={[0, 23]} ticks={[0, 3, 6, 9, 12, 15, 18, 21]} tick={{ fontSize: 8 }} stroke={axisColor} tickFormatter={hourLabel} />
+          <YAxis dataKey="weekday" type="number" domain={[0, 6]} ticks={[0, 1, 2, 3, 4, 5, 6]} reversed tick={{ fontSize: 8 }} stroke={axisColor} tickFormatter={d => weekdays[d]} width={32} />
+          <ZAxis dataKey="sessions" name={t('stats.series.sessions')} range={[40, 400]} />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value, name, item) => (item.dataKey === 'weekday' ? [weekdays[Number(value)], t('stats.axis.weekday')]
+              : item.dataKey === 'hour' ? [hourLabel(Number(value)), t('stats.axis.hour')]
+              : [value, name])}
+          />
+          <Scatter data={heatmap} name={t('stats.series.starts')} fill="#8b5cf6" fillOpacity={0.7} />
+        </ScatterChart>
+      ))}
+    </div>
+  );
+};
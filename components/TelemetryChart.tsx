@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  Line,
+  Brush,
+  ReferenceArea
+} from 'recharts';
+import { ChargePhase, ChargePhaseSpan, ChargingLog, SessionGap, Theme } from '../types';
+import { PHASE_META } from '../services/chargeCurve';
+import { I18n } from '../services/i18n';
+
+export type TelemetrySeries = 'wattage' | 'voltage' | 'amperage' | 'level';
+
+export const SERIES_COLORS: Record<TelemetrySeries, string> = {
+  wattage: '#0ea5e9',
+  voltage: '#f59e0b',
+  amperage: '#06b6d4',
+  level: '#10b981',
+};
+
+export const SeriesLegend = ({ i18n, series }: { i18n: I18n; series: TelemetrySeries[] }) => (
+  <div className="flex gap-4 text-[8px] font-black uppercase opacity-60">
+    {series.map(key => (
+      <div key={key} className="flex items-center gap-1.5">
+        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: SERIES_COLORS[key] }} /> {i18n.t(`series.${key}`)}
+      </div>
+    ))}
+  </div>
+);
+
+// Spread in: ReferenceArea's typings reject SVG presentation attributes written inline
+const phaseBandStyle = (phase: ChargePhase) => ({ fill: PHASE_META[phase].color, fillOpacity: 0.08, strokeOpacity: 0 });
+const GAP_COLOR = '#64748b';
+const gapBandStyle = { fill: GAP_COLOR, fillOpacity: 0.18, stroke: GAP_COLOR, strokeOpacity: 0.4, strokeDasharray: '3 3' };
+
+export const PhaseLegend = ({ i18n, phases, gaps = [] }: { i18n: I18n; phases: ChargePhaseSpan[]; gaps?: SessionGap[] }) => {
+  const present = (Object.keys(PHASE_META) as ChargePhase[]).filter(p => phases.some(s => s.phase === p));
+  if (present.length === 0 && gaps.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-4 text-[8px] font-black uppercase opacity-60">
+      {present.map(phase => (
+        <div key={phase} className="flex items-center gap-1.5">
+          <div className="w-3 h-2 rounded-sm" style={{ backgroundColor: PHASE_META[phase].color, opacity: 0.5 }} /> {i18n.t(`phase.${phase}`)}
+        </div>
+      ))}
+      {gaps.length > 0 && (
+        <div className="flex items-center gap-1.5">
+          <div className="w-3 h-2 rounded-sm border border-dashed" style={{ borderColor: GAP_COLOR, backgroundColor: `${GAP_COLOR}40` }} /> {i18n.t('chart.notSampled')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const TelemetryChart = ({ theme, i18n, sessionId, logs, series = ['wattage', 'voltage'], zoomable = false, phases = [], gaps = [] }: {
+  theme: Theme;
+  i18n: I18n;
+  // Start time of the session being drawn; new samples of the same session keep the zoom
+  sessionId?: number;
+  logs: ChargingLog[];
+  series?: TelemetrySeries[];
+  zoomable?: boolean;
+  phases?: ChargePhaseSpan[];
+  gaps?: SessionGap[];
+}) => {
+  const [isZoomed, setIsZoomed] = useState(false);
+  // Remounting the Brush is the only way to reset its internal window
+  const [brushKey, setBrushKey] = useState(0);
+
+  const resetZoom = () => {
+    setIsZoomed(false);
+    setBrushKey(k => k + 1);
+  };
+
+  // A different session invalidates the zoomed window
+  useEffect(resetZoom, [sessionId]);
+
+  const formatTime = (time: number) => i18n.time(time, true);
+
+  // A numeric time axis lets phase bands line up with real timestamps
+  const data = logs.map(h => ({
+    time: h.timestamp,
+    wattage: parseFloat(h.wattage.toFixed(1)),
+    voltage: parseFloat(h.voltage.toFixed(2)),
+    amperage: parseFloat(h.amperage.toFixed(2)),
+    level: h.level
+  }));
+
+  return (
+    <div className="space-y-3">
+      <div className="h-64 sm:h-80 w-full overflow-hidden">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={data}>
+            <defs><linearGradient id="colorWatt" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.25}/><stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/></linearGradient></defs>
+            <CartesianGrid strokeDasharray="8 8" vertical={false} stroke={theme === 'dark' ? '#1e293b' : '#f1f5f9'} />
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} hide={!zoomable} tick={{ fontSize: 8 }} stroke={theme === 'dark' ? '#475569' : '#94a3b8'} minTickGap={32} />
+            <YAxis yAxisId="power" hide />
+            <YAxis yAxisId="level" hide domain={[0, 100]} />
+            <Tooltip contentStyle={{ backgroundColor: theme === 'dark' ? '#1e293b' : '#ffffff', borderColor: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '16px', fontSize: '10px' }} labelFormatter={time => formatTime(Number(time))} />
+            {data.length > 1 && phases.map(span => (
+              <React.Fragment key={span.start}>
+                <ReferenceArea yAxisId="power" x1={span.start} x2={span.end} ifOverflow="hidden" {...phaseBandStyle(span.phase)} />
+              </React.Fragment>
+            ))}
+            {data.length > 1 && gaps.map(gap => (
+              <React.Fragment key={`gap-${gap.start}`}>
+                <ReferenceArea yAxisId="power" x1={gap.start} x2={gap.end} ifOverflow="hidden" {...gapBandStyle} />
+              </React.Fragment>
+            ))}
+            {series.includes('wattage') && <Area yAxisId="power" type="monotone" dataKey="wattage" stroke="#0ea5e9" strokeWidth={3} fillOpacity={1} fill="url(#colorWatt)" />}
+            {series.includes('voltage') && <Line yAxisId="power" type="monotone" dataKey="voltage" stroke="#f59e0b" strokeWidth={1.5} dot={false} strokeDasharray="6 6" />}
+            {series.includes('amperage') && <Line yAxisId="power" type="monotone" dataKey="amperage" stroke="#06b6d4" strokeWidth={1.5} dot={false} />}
+            {series.includes('level') && <Line yAxisId="level" type="monotone" dataKey="level" stroke="#10b981" strokeWidth={1.5} dot={false} strokeDasharray="2 4" />}
+            {zoomable && data.length > 2 && (
+              <Brush
+                key={brushKey}
+                dataKey="time"
+                tickFormatter={formatTime}
+                height={24}
+                travellerWidth={10}
+                onChange={r => setIsZoomed((r.startIndex ?? 0) > 0 || (r.endIndex ?? data.length - 1) < data.length - 1)}
+                stroke="#6366f1"
+                fill={theme === 'dark' ? '#0f172a' : '#f8fafc'}
+              />
+            )}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+      {zoomable && isZoomed && (
+        <button onClick={resetZoom} className="text-[8px] font-black uppercase tracking-widest text-indigo-500">{i18n.t('chart.resetZoom')}</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { Theme } from '../types';
+import { BatteryIcon } from './Icons';
+import { I18n } from '../services/i18n';
+
+export const UnsupportedBrowser = ({ theme, i18n, onLaunchSimulator }: {
+  theme: Theme;
+  i18n: I18n;
+  onLaunchSimulator: () => void;
+}) => (
+  <div className={`text-center py-16 px-6 border-2 border-dashed rounded-[2.5rem] ${theme === 'dark' ? 'bg-slate-900/40 border-slate-800' : 'bg-slate-50 border-slate-200'}`}>
+    <div className="w-16 h-16 rounded-2xl flex items-center justify-center mx-auto mb-6 bg-rose-500/10 text-rose-500"><BatteryIcon className="w-8 h-8" /></div>
+    <h3 className="text-base font-black uppercase italic tracking-tight mb-2 opacity-80">{i18n.t('unsupported.title')}</h3>
+    <p className="text-[11px] font-medium opacity-50 max-w-sm mx-auto leading-relaxed mb-8">
+      {i18n.t('unsupported.body')}
+    </p>
+    <button onClick={onLaunchSimulator} className="px-6 py-3 rounded-xl bg-sky-500 text-white text-xs font-black uppercase tracking-widest active:scale-95 transition-transform">
+      {i18n.t('unsupported.launch')}
+    </button>
+    <p className="text-[9px] font-medium opacity-40 mt-4">{i18n.t('unsupported.note')}</p>
+  </div>
+);
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Theme } from '../types';
+import { I18n } from '../services/i18n';
+
+export const UpdatePrompt = ({ theme, i18n, onReload, onDismiss }: {
+  theme: Theme;
+  i18n: I18n;
+  onReload: () => void;
+  onDismiss: () => void;
+}) => (
+  <div className={`fixed top-[calc(env(safe-area-inset-top)+1rem)] left-1/2 -translate-x-1/2 z-[70] flex items-center gap-3 pl-5 pr-2 py-2 rounded-2xl shadow-2xl border ${theme === 'dark' ? 'bg-slate-800 text-slate-100 border-slate-700' : 'bg-white text-slate-900 border-slate-200'}`}>
+    <span className="text-[10px] font-black uppercase tracking-widest whitespace-nowrap">{i18n.t('update.available')}</span>
+    <button onClick={onReload} className="px-3 py-1.5 rounded-xl bg-sky-500 text-white text-[9px] font-black uppercase tracking-widest active:scale-95 transition-transform">
+      {i18n.t('update.reload')}
+    </button>
+    <button onClick={onDismiss} className="px-2 py-1.5 text-[9px] font-black uppercase tracking-widest opacity-50">
+      {i18n.t('update.later')}
+    </button>
+  </div>
+);
@@ -0,0 +1,199 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatteryManager, ChargingLog } from '../types';
+import { BatterySource, createSimulatorSource } from '../services/batterySource';
+import { DEFAULT_CCCV_SCRIPT, SimulatedBattery } from '../services/batterySimulator';
+import { DEFAULT_PROFILE } from '../services/deviceProfiles';
+import { loadCheckpoint } from '../services/sessionCheckpoint';
+import { useBatteryTelemetry } from './useBatteryTelemetry';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1, 8);
+
+class MockBattery extends EventTarget implements BatteryManager {
+  charging = false;
+  chargingTime = Infinity;
+  dischargingTime = Infinity;
+  level = 0.5;
+  onchargingchange = null;
+  onchargingtimechange = null;
+  ondischargingtimechange = null;
+  onlevelchange = null;
+
+  /** Moves the wall clock forward, then applies the change the way the browser would. */
+  update(afterMs: number, change: Partial<Pick<BatteryManager, 'charging' | 'level'>>) {
+    vi.advanceTimersByTime(afterMs);
+    if (change.charging !== undefined && change.charging !== this.charging) {
+      this.charging = change.charging;
+      this.dispatchEvent(new Event('chargingchange'));
+    }
+    if (change.level !== undefined && change.level !== this.level) {
+      this.level = change.level;
+      this.dispatchEvent(new Event('levelchange'));
+    }
+  }
+}
+
+// Lets the source promise resolve; waitFor would poll on the faked timers
+const settle = () => act(async () => {});
+
+const sourceFor = (battery: BatteryManager, dispose = () => {}): BatterySource => ({
+  kind: 'browser', battery, simulator: null, dispose
+});
+
+describe('useBatteryTelemetry', () => {
+  let battery: MockBattery;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0);
+    localStorage.clear();
+    battery = new MockBattery();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const render = (onSessionEnd = vi.fn(), drainMonitoring = false) => {
+    const hook = renderHook(() => useBatteryTelemetry({
+      drainMonitoring,
+      profile: DEFAULT_PROFILE,
+      onSessionEnd,
+      openSource: () => Promise.resolve(sourceFor(battery))
+    }));
+    return { ...hook, onSessionEnd };
+  };
+
+  it('reports an unsupported browser when no source is available', async () => {
+    const { result } = renderHook(() => useBatteryTelemetry({
+      drainMonitoring: false, profile: DEFAULT_PROFILE, onSessionEnd: vi.fn(), openSource: () => Promise.resolve(null)
+    }));
+    await settle();
+    expect(result.current.status).toBe('unsupported');
+    expect(result.current.session).toBeNull();
+  });
+
+  it('records a charging session from battery events and reports it once', async () => {
+    const { result, onSessionEnd } = render();
+    await settle();
+    expect(result.current.status).toBe('ready');
+    expect(result.current.session).toBeNull();
+
+    act(() => battery.update(0, { charging: true }));
+    expect(result.current.session).toMatchObject({ mode: 'charging', startTime: T0, startLevel: 0.5 });
+
+    for (let pct = 51; pct <= 55; pct++) act(() => battery.update(2 * MINUTE, { level: pct / 100 }));
+    expect(result.current.logs).toHaveLength(5);
+    expect(result.current.metrics.watts).toBeGreaterThan(0);
+
+    act(() => battery.update(MINUTE, { charging: false }));
+    expect(result.current.session?.endTime).toBe(T0 + 11 * MINUTE);
+    expect(onSessionEnd).toHaveBeenCalledTimes(1);
+    expect(onSessionEnd.mock.calls[0][0].logs).toHaveLength(5);
+
+    // Tagging the finished session must not report it again
+    act(() => result.current.patchSession(T0, s => ({ ...s, chargerId: 'gear-1' })));
+    expect(result.current.session?.chargerId).toBe('gear-1');
+    expect(onSessionEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not archive plug/unplug flaps', async () => {
+    const { result, onSessionEnd } = render();
+    await settle();
+    expect(result.current.status).toBe('ready');
+
+    for (let i = 0; i < 4; i++) {
+      act(() => battery.update(2000, { charging: true }));
+      act(() => battery.update(800, { charging: false }));
+    }
+    expect(onSessionEnd).not.toHaveBeenCalled();
+    expect(result.current.session).toBeNull();
+  });
+
+  it('archives a session that sat at 100% without recording samples', async () => {
+    battery.level = 1;
+    const { result, onSessionEnd } = render();
+    await settle();
+    expect(result.current.status).toBe('ready');
+
+    act(() => battery.update(0, { charging: true }));
+    act(() => battery.update(45 * MINUTE, { charging: false }));
+
+    expect(onSessionEnd).toHaveBeenCalledTimes(1);
+    const [{ stats, logs }] = onSessionEnd.mock.calls[0];
+    expect(logs).toEqual([]);
+    expect(stats).toMatchObject({ startLevel: 1, endLevel: 1, avgWattage: 0 });
+    expect(result.current.metrics.watts).toBe(0);
+  });
+
+  it('disposes the source on unmount', async () => {
+    const dispose = vi.fn();
+    const { result, unmount } = renderHook(() => useBatteryTelemetry({
+      drainMonitoring: false, profile: DEFAULT_PROFILE, onSessionEnd: vi.fn(), openSource: () => Promise.resolve(sourceFor(battery, dispose))
+    }));
+    await settle();
+    expect(result.current.status).toBe('ready');
+    unmount();
+    expect(dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it('checkpoints the active session and resumes it after a reload', async () => {
+    const first = render();
+    await settle();
+    act(() => battery.update(0, { charging: true }));
+    for (let pct = 51; pct <= 53; pct++) act(() => battery.update(2 * MINUTE, { level: pct / 100 }));
+    expect(loadCheckpoint()?.logs).toHaveLength(3);
+    first.unmount();
+
+    // Charging continued while the page was gone
+    battery.update(10 * MINUTE, { level: 0.56 });
+    const { result, onSessionEnd } = render();
+    await settle();
+
+    expect(result.current.session).toMatchObject({ startTime: T0, endTime: null });
+    expect(result.current.session?.gaps).toEqual([{ start: T0 + 6 * MINUTE, end: T0 + 16 * MINUTE, reason: 'reload' }]);
+    expect(result.current.logs.map(l => l.interpolated ?? false)).toEqual([false, false, false, true]);
+    expect(onSessionEnd).not.toHaveBeenCalled();
+  });
+
+  describe('with the simulator', () => {
+    const renderSimulated = (source: BatterySource) => {
+      const onSessionEnd = vi.fn();
+      const hook = renderHook(() => useBatteryTelemetry({
+        drainMonitoring: false, profile: DEFAULT_PROFILE, onSessionEnd, openSource: () => Promise.resolve(source)
+      }));
+      return { ...hook, onSessionEnd, simulator: source.simulator as SimulatedBattery };
+    };
+
+    it('records a simulated charge on screen without reporting it', async () => {
+      const { result, onSessionEnd, simulator, unmount } = renderSimulated(createSimulatorSource(DEFAULT_CCCV_SCRIPT, 30));
+      await settle();
+      for (let minute = 0; minute < 20; minute++) act(() => simulator.advance(MINUTE));
+      expect(result.current.session).toMatchObject({ startLevel: 0.2, endTime: null });
+      expect(result.current.metrics.watts).toBeGreaterThan(0);
+
+      act(() => simulator.setCharging(false));
+      expect(result.current.session?.endTime).toBe(simulator.now());
+      expect(result.current.session?.endLevel).toBeGreaterThan(0.4);
+      expect(onSessionEnd).not.toHaveBeenCalled();
+      expect(loadCheckpoint()).toBeNull();
+      unmount();
+    });
+
+    it('does not report a replayed trace', async () => {
+      const logs: ChargingLog[] = [0, 5, 10, 15, 20, 25].map((minute, i) => ({
+        timestamp: T0 + minute * MINUTE, level: 30 + i * 5, wattage: 12, voltage: 9, amperage: 1.3, status: 'charging'
+      }));
+      logs.push({ ...logs[logs.length - 1], timestamp: T0 + 30 * MINUTE, status: 'discharging' });
+      const { result, onSessionEnd, simulator, unmount } = renderSimulated(createSimulatorSource({ kind: 'trace', logs }, 30));
+      await settle();
+      for (let minute = 0; minute <= 30; minute += 5) act(() => simulator.advance(5 * MINUTE));
+      expect(result.current.session).toMatchObject({ startLevel: 0.3, endLevel: 0.55 });
+      expect(result.current.session?.endTime).not.toBeNull();
+      expect(onSessionEnd).not.toHaveBeenCalled();
+      unmount();
+    });
+  });
+});
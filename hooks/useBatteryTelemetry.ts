@@ -0,0 +1,166 @@
+import { useEffect, useReducer, useRef, useState } from 'react';
+import { BatteryManager, DeviceProfile, SessionStats } from '../types';
+import { BatterySource, openBatterySource } from '../services/batterySource';
+import { SimulatedBattery } from '../services/batterySimulator';
+import { now as clockNow } from '../services/clock';
+import { BatteryReading, FinishedSession, INITIAL_TELEMETRY_STATE, TelemetryState, telemetryReducer } from '../services/sessionReducer';
+import { loadCheckpoint, saveCheckpoint } from '../services/sessionCheckpoint';
+
+export type TelemetryStatus = 'pending' | 'ready' | 'unsupported';
+
+const BATTERY_EVENTS = ['chargingchange', 'levelchange', 'chargingtimechange', 'dischargingtimechange'];
+// Keeps the checkpoint's timestamp fresh while the level sits still, so a reload's gap starts close to when it happened
+const CHECKPOINT_INTERVAL_MS = 30 * 1000;
+
+const readBattery = (batt: BatteryManager): BatteryReading => ({
+  charging: batt.charging,
+  level: batt.level,
+  chargingTime: batt.chargingTime,
+  dischargingTime: batt.dischargingTime,
+});
+
+const writeCheckpoint = ({ session, logs, samples }: TelemetryState) => {
+  saveCheckpoint(session && session.endTime === null ? { session, logs, samples, savedAt: clockNow() } : null);
+};
+
+/**
+ * Subscribes to the battery source and runs the session reducer on its
+ * readings. `onSessionEnd` fires once per finished session of the real
+ * battery; simulated sessions stay on screen but are never handed on to be
+ * archived or shared. With the real battery, the active session is
+ * checkpointed so a reload resumes it.
+ */
+export function useBatteryTelemetry({ drainMonitoring, profile, onSessionEnd, openSource = () => openBatterySource(window.location.search) }: {
+  drainMonitoring: boolean;
+  profile: DeviceProfile;
+  onSessionEnd: (finished: FinishedSession) => void;
+  openSource?: () => Promise<BatterySource | null>;
+}) {
+  const [status, setStatus] = useState<TelemetryStatus>('pending');
+  const [battery, setBattery] = useState<BatteryManager | null>(null);
+  const [simulator, setSimulator] = useState<SimulatedBattery | null>(null);
+  const [reading, setReading] = useState<BatteryReading>({ charging: false, level: 0, chargingTime: Infinity, dischargingTime: Infinity });
+  const [checkpointing, setCheckpointing] = useState(false);
+  const [state, dispatch] = useReducer(telemetryReducer, INITIAL_TELEMETRY_STATE);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const onSessionEndRef = useRef(onSessionEnd);
+  onSessionEndRef.current = onSessionEnd;
+  const reportedRef = useRef<number | null>(null);
+  const sourceKindRef = useRef<BatterySource['kind'] | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+    let cleanup = () => {};
+
+    openSource().then(source => {
+      if (disposed) {
+        source?.dispose();
+        return;
+      }
+      if (!source) {
+        setStatus('unsupported');
+        return;
+      }
+      const batt = source.battery;
+      const updateStatus = () => setReading(readBattery(batt));
+      BATTERY_EVENTS.forEach(type => batt.addEventListener(type, updateStatus));
+      cleanup = () => {
+        BATTERY_EVENTS.forEach(type => batt.removeEventListener(type, updateStatus));
+        source.dispose();
+      };
+
+      // The simulator runs on its own clock, so its sessions are never checkpointed or resumed
+      if (source.kind === 'browser') {
+        const checkpoint = loadCheckpoint();
+        if (checkpoint) dispatch({ type: 'resume', checkpoint, reading: readBattery(batt), drainMonitoring, profile, now: clockNow() });
+        setCheckpointing(true);
+      }
+      sourceKindRef.current = source.kind;
+      setBattery(batt);
+      setSimulator(source.simulator);
+      setReading(readBattery(batt));
+      setStatus('ready');
+    }).catch(error => {
+      console.error('Battery source error:', error);
+      setStatus('unsupported');
+    });
+
+    return () => {
+      disposed = true;
+      cleanup();
+    };
+  }, []);
+
+  useEffect(() => {
+    // Until the first reading arrives, level 0 would look like a real reading
+    if (status !== 'ready') return;
+    dispatch({ type: 'reading', reading, drainMonitoring, profile, now: clockNow() });
+  }, [status, reading.charging, reading.level, drainMonitoring]);
+
+  useEffect(() => {
+    if (status !== 'ready') return;
+    dispatch({ type: 'time-estimate', reading, drainMonitoring, profile, now: clockNow() });
+  }, [reading.chargingTime, reading.dischargingTime]);
+
+  useEffect(() => {
+    if (checkpointing) writeCheckpoint(state);
+  }, [checkpointing, state.session, state.logs]);
+
+  useEffect(() => {
+    if (!checkpointing) return;
+    const save = () => writeCheckpoint(stateRef.current);
+    const timer = setInterval(save, CHECKPOINT_INTERVAL_MS);
+    // Mobile browsers may discard a backgrounded tab without firing pagehide
+    window.addEventListener('pagehide', save);
+    document.addEventListener('visibilitychange', save);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', save);
+      document.removeEventListener('visibilitychange', save);
+    };
+  }, [checkpointing]);
+
+  useEffect(() => {
+    if (!battery) return;
+    // Hidden pages may be throttled or frozen; the stretch is recorded as a gap once visible again
+    let hiddenAt: number | null = document.visibilityState === 'hidden' ? clockNow() : null;
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        hiddenAt = clockNow();
+        return;
+      }
+      if (hiddenAt === null) return;
+      dispatch({ type: 'gap', start: hiddenAt, reading: readBattery(battery), profile, now: clockNow() });
+      hiddenAt = null;
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [battery, profile]);
+
+  useEffect(() => {
+    const { finished } = state;
+    // Patching a finished session's stats replaces the object, so report by identity of the session
+    if (!finished || reportedRef.current === finished.stats.startTime) return;
+    reportedRef.current = finished.stats.startTime;
+    // Simulated sessions carry future timestamps from the sped-up clock and would skew every statistic
+    if (sourceKindRef.current === 'simulator') return;
+    onSessionEndRef.current(finished);
+  }, [state.finished]);
+
+  const patchSession = (id: number, update: (stats: SessionStats) => SessionStats) => {
+    dispatch({ type: 'patch-session', id, update });
+  };
+
+  return {
+    status,
+    battery,
+    simulator,
+    reading,
+    session: state.session,
+    logs: state.logs,
+    metrics: state.metrics,
+    patchSession,
+  };
+}
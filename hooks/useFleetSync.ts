@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FleetSettings, FleetTelemetry } from '../types';
+import { getSession } from '../services/sessionStore';
+import {
+  FleetSyncError, deviceId, loadPendingSessions, pushSession, pushTelemetry, savePendingSessions, validateEndpoint
+} from '../services/fleetSync';
+
+export type FleetSnapshot = Omit<FleetTelemetry, 'deviceId' | 'name' | 'at'>;
+export type FleetSyncStatus = 'off' | 'ok' | 'error';
+
+const PUSH_INTERVAL_MS = 5 * 1000;
+// Unchanged snapshots are still sent this often so the fleet view can tell the device is alive
+const HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Pushes the live snapshot to the fleet receiver while sync is enabled, and
+ * uploads finished sessions, queueing them until the receiver is reachable.
+ */
+export function useFleetSync(settings: FleetSettings, snapshot: FleetSnapshot) {
+  const [status, setStatus] = useState<FleetSyncStatus>('off');
+  const [error, setError] = useState<FleetSyncError | null>(null);
+  const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
+  const settingsRef = useRef(settings);
+  const snapshotRef = useRef(snapshot);
+  const flushing = useRef(false);
+  settingsRef.current = settings;
+  snapshotRef.current = snapshot;
+
+  const active = settings.enabled && validateEndpoint(settings.endpoint) === null;
+  const identity = () => ({ deviceId: deviceId(), name: settingsRef.current.deviceName.trim() || snapshotRef.current.profileName });
+
+  const fail = (err: unknown) => {
+    setStatus('error');
+    setError(err instanceof FleetSyncError ? err : new FleetSyncError('fleetSettings.error.failed'));
+  };
+
+  const flushSessions = useCallback(async () => {
+    if (flushing.current) return;
+    flushing.current = true;
+    try {
+      for (const id of loadPendingSessions()) {
+        const session = await getSession(id);
+        // Deleted from the archive since it was queued
+        if (session) await pushSession(settingsRef.current, identity(), session);
+        savePendingSessions(loadPendingSessions().filter(p => p !== id));
+      }
+    } finally {
+      flushing.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!active) {
+      setStatus('off');
+      setError(null);
+      return;
+    }
+    let sentKey: string | null = null;
+    let sentAt = 0;
+    let disposed = false;
+
+    const push = async () => {
+      const key = JSON.stringify(snapshotRef.current);
+      const now = Date.now();
+      if (key === sentKey && now - sentAt < HEARTBEAT_MS) return;
+      try {
+        await pushTelemetry(settingsRef.current, { ...snapshotRef.current, ...identity(), at: now });
+        if (disposed) return;
+        sentKey = key;
+        sentAt = now;
+        setStatus('ok');
+        setError(null);
+        setLastSyncAt(now);
+        await flushSessions();
+      } catch (err) {
+        if (!disposed) fail(err);
+      }
+    };
+
+    push();
+    const timer = setInterval(push, PUSH_INTERVAL_MS);
+    return () => {
+      disposed = true;
+      clearInterval(timer);
+    };
+  }, [active, settings.endpoint, settings.token, settings.deviceName, flushSessions]);
+
+  /** Queues an archived session for upload; it is sent right away when the receiver is reachable. */
+  const reportSession = useCallback((id: number) => {
+    const { enabled, endpoint } = settingsRef.current;
+    if (!enabled || validateEndpoint(endpoint) !== null) return;
+    savePendingSessions([...loadPendingSessions(), id]);
+    flushSessions().catch(fail);
+  }, [flushSessions]);
+
+  return { status, error, lastSyncAt, reportSession };
+}
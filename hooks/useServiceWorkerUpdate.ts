@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { applyServiceWorkerUpdate, registerServiceWorker } from '../services/serviceWorker';
+
+/** Registers the service worker and exposes a newer build waiting to take over. */
+export function useServiceWorkerUpdate() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => registerServiceWorker(setWaiting), []);
+
+  return {
+    updateReady: waiting !== null,
+    applyUpdate: () => waiting && applyServiceWorkerUpdate(waiting),
+    dismiss: () => setWaiting(null),
+  };
+}
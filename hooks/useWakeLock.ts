@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+
+export function wakeLockSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+}
+
+/** Holds a screen wake lock while `active`, re-acquiring it when the page becomes visible again. */
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !wakeLockSupported()) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let disposed = false;
+
+    const acquire = () => {
+      // The browser releases the lock whenever the page is hidden
+      if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return;
+      navigator.wakeLock.request('screen').then(lock => {
+        if (disposed) lock.release();
+        else sentinel = lock;
+      }).catch(() => {
+        // Refused when the battery saver is on or the page lost focus; the next visibility change retries
+      });
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', acquire);
+    return () => {
+      disposed = true;
+      document.removeEventListener('visibilitychange', acquire);
+      sentinel?.release();
+    };
+  }, [active]);
+}
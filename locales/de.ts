@@ -0,0 +1,406 @@
+import { MessageKey } from './en';
+
+export const de: Record<MessageKey, string> = {
+  'common.on': 'An',
+  'common.off': 'Aus',
+  'common.error': 'Fehler',
+  'common.minutes': '{minutes} Min.',
+  'common.hoursMinutes': '{hours} Std. {minutes} Min.',
+  'common.back': '← Live',
+  'common.loadingSessions': 'Lade Sitzungen...',
+  'common.delete': 'Löschen',
+  'common.export': '{format} exportieren',
+  'common.sessions.one': '{count} Sitzung',
+  'common.sessions.other': '{count} Sitzungen',
+  'common.perMonth': '{value}/Monat',
+
+  'status.linkActive': 'Verbunden',
+  'status.drainMonitor': 'Entlademonitor',
+  'status.standby': 'Bereit',
+
+  'menu.dayTheme': 'Helles Design',
+  'menu.nightTheme': 'Dunkles Design',
+  'menu.drainMonitor': 'Entlademonitor: {state}',
+  'menu.keepScreenOn': 'Bildschirm an: {state}',
+  'menu.alerts': 'Warnungen ({count})',
+  'menu.chargingGoals': 'Ladeziele: {state}',
+  'menu.insights': 'Analysen: {provider}',
+  'menu.gear': 'Ladegeräte & Kabel',
+  'menu.health': 'Akkuzustand',
+  'menu.compare': 'Ladegeräte vergleichen',
+  'menu.statistics': 'Statistik',
+  'menu.fleet': 'Flotte',
+  'menu.fleetSync': 'Flotten-Sync: {state}',
+  'menu.preferences': 'Einstellungen',
+  'menu.archive': 'Archiv',
+  'menu.exportJson': 'JSON exportieren',
+  'menu.exportCsv': 'CSV exportieren',
+  'menu.import': 'Sitzungen importieren',
+  'menu.clearLogs': 'Protokolle löschen',
+
+  'notice.noSessions': 'Keine Sitzungen zum Exportieren',
+  'notice.exportFailed': 'Export fehlgeschlagen',
+  'notice.imported.one': '{count} Sitzung importiert',
+  'notice.imported.other': '{count} Sitzungen importiert',
+  'notice.importedSkipped': '{imported}, {skipped} bereits vorhanden',
+  'notice.importFailed': 'Import fehlgeschlagen',
+  'notice.importFailedReason': 'Import fehlgeschlagen: {reason}',
+
+  'health.banner': 'Akkuzustand auf {percent} geschätzt, unter deiner Schwelle von {threshold}. Zum Akkuzustand →',
+
+  'live.powerDraw': 'Aktuelle Entladeleistung',
+  'live.powerInflow': 'Aktuelle Ladeleistung',
+  'live.confidence': 'Konf. {percent}',
+  'live.potential': 'Spannung · Geschätzt',
+  'live.intensity': 'Stromstärke',
+
+  'capacity.title': 'Akkukapazität',
+  'capacity.activeCharge': 'Aktuelle Ladung',
+  'capacity.runtimeLeft': 'Restlaufzeit',
+  'capacity.fullIn': 'Voll in',
+  'capacity.targetAt': '{percent} um',
+
+  'chart.title': 'Telemetrie',
+
+  'diagnostic.active': 'Laufende Diagnose',
+  'diagnostic.drain': 'Laufender Entlademonitor',
+  'diagnostic.summary': 'Diagnoseübersicht',
+  'diagnostic.monitoring': 'Überwache...',
+  'diagnostic.baseline': 'Erfasse stabile Basisdaten...',
+
+  'standby.title': 'System bereit',
+  'standby.body': 'Gerät anschließen, um die Echtzeit-Telemetrie zu starten.',
+
+  'history.title': 'Verlauf',
+  'history.statistics': 'Statistik →',
+  'history.drain': 'Entladeanalyse',
+  'history.efficiency': 'Effizienzanalyse',
+  'history.avg': 'Ø {watts}W',
+  'history.grade': 'Note {grade}',
+  'history.over': '{duration} über {percent}',
+  'history.withinLimit': 'Im Limit',
+  'history.loadMore': 'Mehr laden ({count})',
+
+  'tiles.avgDraw': 'Ø Entladung',
+  'tiles.avgRate': 'Ø Leistung',
+  'tiles.potential': 'Spannung (geschätzt)',
+  'tiles.peakAmps': 'Spitzenstrom',
+  'tiles.netDrain': 'Netto entladen',
+  'tiles.netGain': 'Netto geladen',
+  'tiles.drained': 'Entnommen',
+  'tiles.energy': 'Energie',
+  'tiles.charge': 'Ladung',
+  'tiles.minRate': 'Min. Leistung',
+  'tiles.p90Rate': 'P90 Leistung',
+
+  'goal.unplugNow': 'Jetzt abstecken · Limit {percent}',
+  'goal.unplugAt': 'Abstecken bei {percent}',
+  'goal.belowLower': 'Unter {percent} · Anstecken',
+  'goal.readyBy': 'Bereit um {time}',
+  'goal.onTrack': 'Im Plan',
+  'goal.late': '{duration} zu spät',
+  'goal.plugInBy': 'Anstecken bis · Bereit {time}',
+  'goal.now': 'Jetzt',
+
+  'update.available': 'Update verfügbar',
+  'update.reload': 'Neu laden',
+  'update.later': 'Später',
+
+  'prefs.title': 'Einstellungen',
+  'prefs.language': 'Sprache',
+  'prefs.timeFormat': 'Zeitformat',
+  'prefs.12h': '12 Stunden',
+  'prefs.24h': '24 Stunden',
+  'prefs.capacityUnit': 'Ladungsanzeige',
+  'prefs.precision': 'Nachkommastellen',
+  'prefs.preview': 'Vorschau',
+
+  'detail.loading': 'Lade Sitzung...',
+  'detail.drain': 'Entladung',
+  'detail.inProgress': 'Läuft',
+  'detail.replay': 'Telemetrie-Wiedergabe',
+  'detail.noSamples': 'Für diese Sitzung wurden keine Messwerte aufgezeichnet.',
+  'detail.goal': 'Ladeziel {lower}–{upper}',
+  'detail.goalPeak': 'Höchststand {percent}',
+  'detail.startedBelow': 'Unter der unteren Grenze begonnen',
+  'detail.withinLimit': 'Im Limit',
+  'detail.over': '{duration} darüber',
+  'detail.accuracy': 'Prognosegenauigkeit',
+  'detail.full': 'Voll',
+  'detail.predicted': '{target} · erwartet {time}',
+  'detail.madeAt': 'Erstellt bei {percent} · {time}',
+  'detail.notReached': 'Nicht erreicht',
+  'detail.untagged': 'Nicht zugeordnet',
+  'detail.noAnalysis': 'Für diese Sitzung wurde noch keine Analyse durchgeführt.',
+
+  'chart.resetZoom': 'Zoom zurücksetzen',
+  'chart.notSampled': 'Nicht erfasst (interpoliert)',
+  'series.wattage': 'Watt',
+  'series.voltage': 'Volt (geschätzt)',
+  'series.amperage': 'Ampere',
+  'series.level': 'Ladestand',
+  'phase.cc': 'Konstantstrom',
+  'phase.cv': 'CV-Abfall',
+  'phase.trickle': 'Erhaltungsladung',
+  'phase.throttle': 'Thermische Drosselung',
+
+  'gear.charger': 'Ladegerät',
+  'gear.cable': 'Kabel',
+
+  'insight.title': 'KI-Zustandsanalyse',
+  'insight.fallback': '{provider} (Ersatz)',
+  'insight.analyzing': 'Analysiere...',
+  'insight.grade': 'Ladegerät-Note',
+  'insight.protocol': 'Ladeprotokoll',
+  'insight.recommendations': 'Empfehlungen',
+  'insight.run': 'Analyse starten',
+  'insight.rerun': 'Analyse wiederholen',
+  'severity.info': 'Info',
+  'severity.warning': 'Warnung',
+  'severity.critical': 'Kritisch',
+  'protocol.usb-standard': 'USB-Standard (≤5 W)',
+  'protocol.usb-bc': 'USB BC 1.2 (≤7,5 W)',
+  'protocol.quick-charge': 'Quick Charge (≤18 W)',
+  'protocol.usb-pd': 'USB Power Delivery',
+  'protocol.pd-pps': 'USB PD PPS',
+  'protocol.unknown': 'Unbekannt',
+
+  'profile.title': 'Geräteprofil',
+  'profile.custom': 'Eigenes Profil',
+  'profile.name': 'Name',
+  'profile.namePlaceholder': 'Testgerät A',
+  'profile.ratedMah': 'Nenn-mAh',
+  'profile.nominalV': 'Nennspannung V',
+  'profile.chemistry': 'Zellchemie (optional)',
+  'profile.unspecified': 'Nicht angegeben',
+  'profile.add': 'Profil hinzufügen',
+
+  'retention.title': 'Sitzungsarchiv',
+  'retention.sessions': 'Sitzungen',
+  'retention.size': 'Ca. Größe',
+  'retention.note': 'Sobald ein Limit überschritten ist, werden die ältesten Sitzungen entfernt.',
+  'retention.unlimited': 'Unbegrenzt',
+  'retention.maxSessions': 'Höchstens behalten',
+  'retention.maxSessionsValue': '{count} Sitzungen',
+  'retention.maxAge': 'Aufbewahren für',
+  'retention.maxAgeValue': '{count} Tage',
+  'retention.maxSize': 'Archivgröße',
+  'retention.maxSizeValue': '{count} MB',
+
+  'alerts.title': 'Ladewarnungen',
+  'alerts.unsupported': 'Dieser Browser kann keine Systembenachrichtigungen anzeigen.',
+  'alerts.denied': 'Benachrichtigungen sind blockiert. Erlaube sie in den Browsereinstellungen, um Warnungen zu erhalten.',
+  'alerts.prompt': 'Erlaube Benachrichtigungen, damit dich Warnungen auch erreichen, wenn VoltFlow im Hintergrund läuft.',
+  'alerts.enable': 'Benachrichtigungen aktivieren',
+  'alerts.none': 'Noch keine Warnregeln.',
+  'alerts.newRule': 'Neue Regel',
+  'alerts.trigger': 'Auslöser',
+  'alerts.level': 'Ladestand %',
+  'alerts.belowW': 'Unter W',
+  'alerts.forMinutes': 'Für Minuten',
+  'alerts.add': 'Regel hinzufügen',
+  'alerts.invalidLevel': 'Ladestand muss zwischen 1 und 100 % liegen',
+  'alerts.invalidWatts': 'Leistung muss über 0 liegen',
+  'alerts.invalidMinutes': 'Minuten müssen über 0 liegen',
+  'alerts.kind.level-reached': 'Ladestand erreicht',
+  'alerts.kind.unplugged': 'Ladegerät abgesteckt',
+  'alerts.kind.low-wattage': 'Niedrige Leistung',
+  'alerts.kind.stalled': 'Ladevorgang stockt',
+  'alerts.rule.level-reached': 'Ladestand erreicht {level}',
+  'alerts.rule.unplugged': 'Ladegerät abgesteckt',
+  'alerts.rule.low-wattage': 'Unter {watts} W für {duration}',
+  'alerts.rule.stalled': 'Keine Ladestandsänderung für {duration}',
+  'alerts.levelReachedTitle': 'Akku bei {level}',
+  'alerts.levelReachedBody': 'Der Ladestand hat deine Warnschwelle von {target} erreicht.',
+  'alerts.unpluggedTitle': 'Ladegerät abgesteckt',
+  'alerts.unpluggedBody': 'Laden bei {level} beendet.',
+  'alerts.lowWattageTitle': 'Langsames Laden',
+  'alerts.lowWattageBody': 'Die Leistung lag {duration} unter {watts} W (jetzt {current} W).',
+  'alerts.stalledTitle': 'Ladevorgang stockt',
+  'alerts.stalledBody': 'Der Ladestand steht seit {duration} bei {level}.',
+
+  'gear.title': 'Ladegeräte & Kabel',
+  'gear.chargers': 'Ladegeräte',
+  'gear.cables': 'Kabel',
+  'gear.none': 'Noch nichts gespeichert.',
+  'gear.rated': '{watts} W Nennleistung',
+  'gear.unrated': 'Ohne Nennleistung',
+  'gear.addTitle': 'Zubehör hinzufügen',
+  'gear.type': 'Typ',
+  'gear.ratedW': 'Nennleistung W (optional)',
+  'gear.name': 'Name',
+  'gear.chargerPlaceholder': 'Anker 30W PD',
+  'gear.cablePlaceholder': '1 m USB-C geflochten',
+  'gear.notes': 'Notizen',
+  'gear.add.charger': 'Ladegerät hinzufügen',
+  'gear.add.cable': 'Kabel hinzufügen',
+
+  'insights.title': 'Analyseanbieter',
+  'insights.unavailable': 'Nicht verfügbar',
+  'insights.provider.gemini': 'Google Gemini',
+  'insights.provider.openai-compatible': 'OpenAI-kompatibler Server',
+  'insights.provider.offline': 'Offline-Analyse',
+  'insights.note.gemini': 'Cloud-Analyse. Benötigt einen API-Schlüssel und eine Netzwerkverbindung.',
+  'insights.note.openai-compatible': 'Jeder Server mit einer Chat-API im OpenAI-Stil, z. B. ein lokales Modell.',
+  'insights.note.offline': 'Regelbasierte Note, auf diesem Gerät berechnet. Immer verfügbar.',
+  'insights.baseUrl': 'Basis-URL',
+  'insights.model': 'Modell',
+  'insights.apiKey': 'API-Schlüssel (optional)',
+  'insights.fallbackNote': 'Ist der gewählte Anbieter nicht erreichbar, wird stattdessen die Offline-Analyse verwendet.',
+
+  'simulator.title': 'Simulierter Akku',
+  'simulator.unplug': 'Abstecken',
+  'simulator.plugIn': 'Anstecken',
+  'simulator.exit': 'Beenden',
+  'unsupported.title': 'Akku-Telemetrie nicht verfügbar',
+  'unsupported.body': 'Dieser Browser stellt die Battery Status API nicht bereit, die VoltFlow für Live-Werte braucht. Sie ist in Chrome, Edge und anderen Chromium-Browsern verfügbar, aber nicht in Firefox oder Safari.',
+  'unsupported.launch': 'Simulator starten',
+  'unsupported.note': 'Simuliert eine Schnellladung ab 20 % auf einer synthetischen CC/CV-Kurve. Archivierte Sitzungen bleiben abrufbar.',
+
+  'goals.title': 'Ladeziele',
+  'goals.coaching': 'Akkuschonung: {state}',
+  'goals.coachingNote': 'Ein Ladestand zwischen den Grenzen verlangsamt den Kapazitätsverlust. Sitzungen werden nach der Zeit über der oberen Grenze bewertet.',
+  'goals.lower': 'Untere Grenze',
+  'goals.upper': 'Obere Grenze',
+  'goals.readyBy': 'Fertig um (optional)',
+  'goals.readyByNote': 'Mit einer Zielzeit nennt dir VoltFlow den spätesten Zeitpunkt zum Anstecken, um bis dahin {percent} zu erreichen.',
+  'goals.weekly': 'Wochenbilanz',
+  'goals.noWeeks': 'Noch keine bewerteten Sitzungen. Sitzungen werden bewertet, sobald Ladeziele aktiv sind.',
+  'goals.weekOf': 'Woche vom {date}',
+  'goals.withinLimit': '{within}/{total} Sitzungen im Limit',
+  'goals.over': '{duration} darüber',
+
+  'fleetSettings.title': 'Flotten-Sync',
+  'fleetSettings.share': 'Dieses Gerät teilen: {state}',
+  'fleetSettings.shareNote': 'Sendet Ladestand, Leistung und abgeschlossene Sitzungen an einen Flotten-Empfänger in deinem Netzwerk. Nichts verlässt das angegebene Netzwerk.',
+  'fleetSettings.url': 'Empfänger-URL',
+  'fleetSettings.deviceName': 'Gerätename',
+  'fleetSettings.token': 'Token (optional)',
+  'fleetSettings.help': 'Starte den Empfänger mit {command} auf einem beliebigen Rechner im Netzwerk. Setze dort FLEET_TOKEN, um hier dasselbe Token zu verlangen.',
+  'fleetSettings.connected': 'Verbunden',
+  'fleetSettings.notSyncing': 'Keine Synchronisierung',
+  'fleetSettings.waiting': 'Warte auf Empfänger-URL',
+  'fleetSettings.lastPush': 'Zuletzt gesendet {time}',
+  'fleetSettings.noPush': 'Noch nichts gesendet',
+
+  'fleet.unreachable': 'Empfänger nicht erreichbar',
+  'fleet.notConfigured': 'Nicht eingerichtet',
+  'fleet.devices': 'Geräte',
+  'fleet.setupNote': 'Verbinde VoltFlow mit einem Flotten-Empfänger, um alle Geräte zu sehen, die an ihn melden.',
+  'fleet.setup': 'Flotten-Sync einrichten →',
+  'fleet.connecting': 'Verbinde...',
+  'fleet.empty': 'Bisher hat sich kein Gerät gemeldet.',
+  'fleet.state.offline': 'Offline',
+  'fleet.state.charging': 'Lädt',
+  'fleet.state.draining': 'Entlädt',
+  'fleet.state.idle': 'Inaktiv',
+  'fleet.thisDevice': 'Dieses Gerät',
+  'fleet.simulated': 'Simuliert',
+  'fleet.secondsAgo': 'vor {seconds} s',
+  'fleet.ago': 'vor {duration}',
+
+  'compare.ranking': 'Ladegeräte-Rangliste',
+  'compare.noRanking': 'Ordne Ladesitzungen ein Ladegerät zu, um eine Rangliste zu erhalten.',
+  'compare.median': 'Median',
+  'compare.overlay': 'Leistungsvergleich',
+  'compare.selectNote': 'Wähle unten Sitzungen aus, um ihre Leistungskurven zu überlagern.',
+  'compare.noSessions': 'Noch keine Ladesitzungen aufgezeichnet.',
+
+  'health.estimate': 'Kapazitätsschätzung',
+  'health.tile.health': 'Zustand',
+  'health.tile.effective': 'Effektiv',
+  'health.tile.rated': 'Nenn',
+  'health.tile.cycles': 'Zyklen',
+  'health.tile.fadeTrend': 'Verlusttrend',
+  'health.tile.peakTrend': 'Spitzen-W-Trend',
+  'health.tile.dataPoints': 'Datenpunkte',
+  'health.tile.latestPeak': 'Letzte Spitze',
+  'health.threshold': 'Warnen unter',
+  'health.thresholdOption': '{percent} Zustand',
+  'health.warning': 'Geschätzter Akkuzustand {percent}, unter deiner Schwelle von {threshold}. Ein Akkutausch könnte sinnvoll sein.',
+  'health.note': 'Vergleicht, wie schnell jede Ladesitzung bei vollem Strom an Ladestand gewinnt, mit den ersten drei Sitzungen am selben Ladegerät. Ein verschlissener Akku ist schneller voll, daher zeigt der Wert den Verlust gegenüber dem Akku zu Beginn der Aufzeichnung, nicht gegenüber einer Labormessung.',
+  'health.fade': 'Kapazitätsverlust',
+  'health.series.health': 'Zustand %',
+  'health.series.peak': 'Spitze W',
+  'health.empty': 'Zeichne einige Ladesitzungen am selben Ladegerät auf, um den Kapazitätsverlust darzustellen.',
+
+  'stats.range.days': '{count} T',
+  'stats.range.year': '1 J',
+  'stats.mode.charging': 'Laden',
+  'stats.mode.discharging': 'Entladung',
+  'stats.from': 'Von',
+  'stats.to': 'Bis',
+  'stats.charger': 'Ladegerät',
+  'stats.allChargers': 'Alle Ladegeräte',
+  'stats.device': 'Gerät',
+  'stats.allDevices': 'Alle Geräte',
+  'stats.tile.sessions': 'Sitzungen',
+  'stats.tile.totalCharged': 'Gesamt geladen',
+  'stats.tile.totalDrained': 'Gesamt entladen',
+  'stats.tile.avgLength': 'Ø Dauer',
+  'stats.tile.avgGain': 'Ø Zuwachs',
+  'stats.tile.avgDrain': 'Ø Entladung',
+  'stats.empty': 'Keine Sitzungen entsprechen diesen Filtern.',
+  'stats.perDay': 'Sitzungen pro Tag',
+  'stats.levels': 'Start- und Endstand',
+  'stats.wattage': 'Leistungsverteilung',
+  'stats.timeOfDay': 'Tageszeit',
+  'stats.series.sessions': 'Sitzungen',
+  'stats.series.energy': 'Energie Wh',
+  'stats.series.started': 'Beginn',
+  'stats.series.ended': 'Ende',
+  'stats.series.minutes': 'Minuten',
+  'stats.series.starts': 'Sitzungsbeginne',
+  'stats.axis.weekday': 'Wochentag',
+  'stats.axis.hour': 'Uhrzeit',
+
+  'profile.error.name': 'Name ist erforderlich',
+  'profile.error.capacity': 'Kapazität muss zwischen 500 und 30000 mAh liegen',
+  'profile.error.voltage': 'Nennspannung muss zwischen 2,5 und 5 V liegen',
+  'profile.error.chemistry': 'Unbekannte Zellchemie',
+  'gear.error.kind': 'Unbekannter Zubehörtyp',
+  'gear.error.name': 'Name ist erforderlich',
+  'gear.error.ratedWatts': 'Nennleistung muss zwischen 0 und 240 W liegen',
+  'fleetSettings.error.protocol': 'Die Adresse muss eine http(s)-URL sein',
+  'fleetSettings.error.url': 'Die Adresse muss eine URL wie http://192.168.1.20:8787 sein',
+  'fleetSettings.error.receiver': 'Empfänger: {error}',
+  'fleetSettings.error.status': 'Empfänger antwortete mit {status}',
+  'fleetSettings.error.timeout': 'Empfänger hat nicht geantwortet',
+  'fleetSettings.error.unreachable': 'Empfänger ist nicht erreichbar',
+  'fleetSettings.error.failed': 'Synchronisierung fehlgeschlagen',
+
+  'offline.verdict.A': 'schnelles Laden auf PD/PPS-Niveau',
+  'offline.verdict.B': 'solides Schnellladen',
+  'offline.verdict.C': 'mäßiges Laden, typisch für ein einfaches Schnellladenetzteil',
+  'offline.verdict.D': 'langsames Laden auf normalem USB-Niveau',
+  'offline.verdict.F': 'sehr langsames Laden, das auf ein schwaches Netzteil, ein schlechtes Kabel oder einen PC-Anschluss hindeutet',
+  'offline.summary': '{average} W im Schnitt ({peak} W Spitze) deuten auf {verdict} hin. {stability}',
+  'offline.stability.fewSamples': 'Es wurden zu wenige Messwerte aufgezeichnet, um die Stabilität zu beurteilen.',
+  'offline.stability.swings': 'Die Leistung schwankte während der Sitzung stark.',
+  'offline.stability.tapered': 'Die Leistung lag zeitweise deutlich über dem Schnitt und fiel dann ab, das übliche Muster kurz vor voll.',
+  'offline.stability.steady': 'Die Leistung war durchgehend stabil.',
+  'offline.flag.short': 'Sitzung zu kurz für eine verlässliche Bewertung.',
+  'offline.flag.unstable': 'Instabile Stromversorgung: möglicherweise ein lockeres Kabel, thermische Drosselung oder ein überlastetes Netzteil.',
+  'offline.flag.slow': 'Die durchschnittliche Leistung von {watts} W liegt deutlich unter Schnellladeniveau.',
+  'offline.rec.longer': 'Lass die nächste Sitzung länger laufen, bevor du den Stecker ziehst.',
+  'offline.rec.cable': 'Probiere ein anderes Kabel und halte das Telefon beim Laden kühl.',
+  'offline.rec.charger': 'Verwende ein USB-C-PD-Netzteil mit mindestens 20 W und ein passend spezifiziertes Kabel.',
+  'offline.rec.none': 'Keine Änderungen nötig; Netzteil und Kabel arbeiten gut.',
+
+  'import.notJson': 'Die Datei ist kein gültiges JSON',
+  'import.notExport': 'Kein VoltFlow-Sitzungsexport',
+  'import.version': 'Nicht unterstützte Exportversion {version}',
+  'import.noSessions': 'Der Export enthält keine Sitzungen',
+  'import.csvColumns': 'Der CSV fehlen VoltFlow-Spalten',
+  'import.sampleObject': 'Sitzung {session}: Messwert muss ein Objekt sein',
+  'import.sampleNumber': 'Sitzung {session}: Messwert {field} muss eine Zahl sein',
+  'import.sampleStatus': "Sitzung {session}: Messwertstatus muss 'charging' oder 'discharging' sein",
+  'import.missingStats': 'Sitzung {session}: Statistik fehlt',
+  'import.number': 'Sitzung {session}: {field} muss eine Zahl sein',
+  'import.numberOrNull': 'Sitzung {session}: {field} muss eine Zahl oder null sein',
+  'import.mode': "Sitzung {session}: mode muss 'charging' oder 'discharging' sein",
+  'import.string': 'Sitzung {session}: {field} muss ein Text sein',
+  'import.malformed': 'Sitzung {session}: {field} ist fehlerhaft',
+  'import.profile': 'Sitzung {session}: ungültiges Profil ({detail})',
+  'import.logs': 'Sitzung {session}: logs muss eine Liste sein',
+};
@@ -0,0 +1,408 @@
+// English is the reference catalog: every other locale must define the same keys.
+// `{name}` placeholders are filled in by `t()`.
+export const en = {
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.error': 'Error',
+  'common.minutes': '{minutes}m',
+  'common.hoursMinutes': '{hours}h {minutes}m',
+  'common.back': '← Live',
+  'common.loadingSessions': 'Loading sessions...',
+  'common.delete': 'Delete',
+  'common.export': 'Export {format}',
+  'common.sessions.one': '{count} session',
+  'common.sessions.other': '{count} sessions',
+  'common.perMonth': '{value}/mo',
+
+  'status.linkActive': 'Link Active',
+  'status.drainMonitor': 'Drain Monitor',
+  'status.standby': 'Standby',
+
+  'menu.dayTheme': 'Day Theme',
+  'menu.nightTheme': 'Night Theme',
+  'menu.drainMonitor': 'Drain Monitor: {state}',
+  'menu.keepScreenOn': 'Keep Screen On: {state}',
+  'menu.alerts': 'Alerts ({count})',
+  'menu.chargingGoals': 'Charging Goals: {state}',
+  'menu.insights': 'Insights: {provider}',
+  'menu.gear': 'Chargers & Cables',
+  'menu.health': 'Battery Health',
+  'menu.compare': 'Compare Chargers',
+  'menu.statistics': 'Statistics',
+  'menu.fleet': 'Fleet',
+  'menu.fleetSync': 'Fleet Sync: {state}',
+  'menu.preferences': 'Preferences',
+  'menu.archive': 'Archive',
+  'menu.exportJson': 'Export JSON',
+  'menu.exportCsv': 'Export CSV',
+  'menu.import': 'Import Sessions',
+  'menu.clearLogs': 'Clear Logs',
+
+  'notice.noSessions': 'No sessions to export',
+  'notice.exportFailed': 'Export failed',
+  'notice.imported.one': 'Imported {count} session',
+  'notice.imported.other': 'Imported {count} sessions',
+  'notice.importedSkipped': '{imported}, {skipped} already present',
+  'notice.importFailed': 'Import failed',
+  'notice.importFailedReason': 'Import failed: {reason}',
+
+  'health.banner': 'Battery health estimated at {percent}, below your {threshold} threshold. View health dashboard →',
+
+  'live.powerDraw': 'Live Power Draw',
+  'live.powerInflow': 'Live Power Inflow',
+  'live.confidence': 'Conf {percent}',
+  'live.potential': 'Potential · Inferred',
+  'live.intensity': 'Intensity',
+
+  'capacity.title': 'Battery Capacity',
+  'capacity.activeCharge': 'Active Charge',
+  'capacity.runtimeLeft': 'Runtime Left',
+  'capacity.fullIn': 'Full In',
+  'capacity.targetAt': '{percent} At',
+
+  'chart.title': 'Telemetry Graph',
+
+  'diagnostic.active': 'Active Diagnostic',
+  'diagnostic.drain': 'Active Drain Monitor',
+  'diagnostic.summary': 'Diagnostic Summary',
+  'diagnostic.monitoring': 'Monitoring...',
+  'diagnostic.baseline': 'Recording stable baseline data...',
+
+  'standby.title': 'System Standby',
+  'standby.body': 'Connect hardware to initiate real-time telemetry.',
+
+  'history.title': 'Session History',
+  'history.statistics': 'Statistics →',
+  'history.drain': 'Drain Analysis',
+  'history.efficiency': 'Efficiency Analysis',
+  'history.avg': '{watts}W Avg',
+  'history.grade': 'Grade {grade}',
+  'history.over': '{duration} over {percent}',
+  'history.withinLimit': 'Within limit',
+  'history.loadMore': 'Load More ({count})',
+
+  'tiles.avgDraw': 'Avg Draw',
+  'tiles.avgRate': 'Avg Rate',
+  'tiles.potential': 'Potential (Est)',
+  'tiles.peakAmps': 'Peak Amps',
+  'tiles.netDrain': 'Net Drain',
+  'tiles.netGain': 'Net Gain',
+  'tiles.drained': 'Drained',
+  'tiles.energy': 'Energy',
+  'tiles.charge': 'Charge',
+  'tiles.minRate': 'Min Rate',
+  'tiles.p90Rate': 'P90 Rate',
+
+  'goal.unplugNow': 'Unplug Now · Limit {percent}',
+  'goal.unplugAt': 'Unplug At {percent}',
+  'goal.belowLower': 'Below {percent} · Plug In',
+  'goal.readyBy': 'Ready By {time}',
+  'goal.onTrack': 'On Track',
+  'goal.late': '{duration} Late',
+  'goal.plugInBy': 'Plug In By · Ready {time}',
+  'goal.now': 'Now',
+
+  'update.available': 'Update available',
+  'update.reload': 'Reload',
+  'update.later': 'Later',
+
+  'prefs.title': 'Preferences',
+  'prefs.language': 'Language',
+  'prefs.timeFormat': 'Time Format',
+  'prefs.12h': '12-hour',
+  'prefs.24h': '24-hour',
+  'prefs.capacityUnit': 'Charge Display',
+  'prefs.precision': 'Decimal Places',
+  'prefs.preview': 'Preview',
+
+  'detail.loading': 'Loading session...',
+  'detail.drain': 'Drain',
+  'detail.inProgress': 'In progress',
+  'detail.replay': 'Telemetry Replay',
+  'detail.noSamples': 'No samples were recorded for this session.',
+  'detail.goal': 'Charging Goal {lower}–{upper}',
+  'detail.goalPeak': 'Peak {percent}',
+  'detail.startedBelow': 'Started below lower limit',
+  'detail.withinLimit': 'Within Limit',
+  'detail.over': '{duration} over',
+  'detail.accuracy': 'Prediction Accuracy',
+  'detail.full': 'Full',
+  'detail.predicted': '{target} · predicted {time}',
+  'detail.madeAt': 'Made at {percent} · {time}',
+  'detail.notReached': 'Not reached',
+  'detail.untagged': 'Untagged',
+  'detail.noAnalysis': 'No analysis has been run for this session yet.',
+
+  'chart.resetZoom': 'Reset Zoom',
+  'chart.notSampled': 'Not sampled (interpolated)',
+  'series.wattage': 'Watt',
+  'series.voltage': 'Volt (Est)',
+  'series.amperage': 'Amp',
+  'series.level': 'Level',
+  'phase.cc': 'Constant Current',
+  'phase.cv': 'CV Taper',
+  'phase.trickle': 'Trickle',
+  'phase.throttle': 'Thermal Throttle',
+
+  'gear.charger': 'Charger',
+  'gear.cable': 'Cable',
+
+  'insight.title': 'AI Health Analysis',
+  'insight.fallback': '{provider} (fallback)',
+  'insight.analyzing': 'Analyzing...',
+  'insight.grade': 'Charger Grade',
+  'insight.protocol': 'Protocol Tier',
+  'insight.recommendations': 'Recommendations',
+  'insight.run': 'Run Analysis',
+  'insight.rerun': 'Re-run Analysis',
+  'severity.info': 'Info',
+  'severity.warning': 'Warning',
+  'severity.critical': 'Critical',
+  'protocol.usb-standard': 'USB Standard (≤5W)',
+  'protocol.usb-bc': 'USB BC 1.2 (≤7.5W)',
+  'protocol.quick-charge': 'Quick Charge (≤18W)',
+  'protocol.usb-pd': 'USB Power Delivery',
+  'protocol.pd-pps': 'USB PD PPS',
+  'protocol.unknown': 'Unknown',
+
+  'profile.title': 'Device Profile',
+  'profile.custom': 'Custom Profile',
+  'profile.name': 'Name',
+  'profile.namePlaceholder': 'Test Phone A',
+  'profile.ratedMah': 'Rated mAh',
+  'profile.nominalV': 'Nominal V',
+  'profile.chemistry': 'Chemistry (optional)',
+  'profile.unspecified': 'Unspecified',
+  'profile.add': 'Add Profile',
+
+  'retention.title': 'Session Archive',
+  'retention.sessions': 'Sessions',
+  'retention.size': 'Approx. Size',
+  'retention.note': 'Oldest sessions are removed once any limit is exceeded.',
+  'retention.unlimited': 'Unlimited',
+  'retention.maxSessions': 'Keep at most',
+  'retention.maxSessionsValue': '{count} sessions',
+  'retention.maxAge': 'Keep for',
+  'retention.maxAgeValue': '{count} days',
+  'retention.maxSize': 'Archive size',
+  'retention.maxSizeValue': '{count} MB',
+
+  'alerts.title': 'Charge Alerts',
+  'alerts.unsupported': 'This browser cannot show system notifications.',
+  'alerts.denied': 'Notifications are blocked. Allow them in the browser settings to receive alerts.',
+  'alerts.prompt': 'Allow notifications so alerts can reach you while VoltFlow is in the background.',
+  'alerts.enable': 'Enable Notifications',
+  'alerts.none': 'No alert rules yet.',
+  'alerts.newRule': 'New Rule',
+  'alerts.trigger': 'Trigger',
+  'alerts.level': 'Level %',
+  'alerts.belowW': 'Below W',
+  'alerts.forMinutes': 'For minutes',
+  'alerts.add': 'Add Rule',
+  'alerts.invalidLevel': 'Level must be between 1 and 100%',
+  'alerts.invalidWatts': 'Wattage must be above 0',
+  'alerts.invalidMinutes': 'Minutes must be above 0',
+  'alerts.kind.level-reached': 'Level reached',
+  'alerts.kind.unplugged': 'Charger unplugged',
+  'alerts.kind.low-wattage': 'Low wattage',
+  'alerts.kind.stalled': 'Session stalled',
+  'alerts.rule.level-reached': 'Level reaches {level}',
+  'alerts.rule.unplugged': 'Charger unplugged',
+  'alerts.rule.low-wattage': 'Below {watts}W for {duration}',
+  'alerts.rule.stalled': 'No level change for {duration}',
+  'alerts.levelReachedTitle': 'Battery at {level}',
+  'alerts.levelReachedBody': 'Charge reached your {target} alert level.',
+  'alerts.unpluggedTitle': 'Charger unplugged',
+  'alerts.unpluggedBody': 'Charging stopped at {level}.',
+  'alerts.lowWattageTitle': 'Slow charging',
+  'alerts.lowWattageBody': 'Power stayed below {watts}W for {duration} (now {current}W).',
+  'alerts.stalledTitle': 'Charging stalled',
+  'alerts.stalledBody': 'Level has not changed from {level} in {duration}.',
+
+  'gear.title': 'Chargers & Cables',
+  'gear.chargers': 'Chargers',
+  'gear.cables': 'Cables',
+  'gear.none': 'None saved yet.',
+  'gear.rated': '{watts} W rated',
+  'gear.unrated': 'Unrated',
+  'gear.addTitle': 'Add Gear',
+  'gear.type': 'Type',
+  'gear.ratedW': 'Rated W (optional)',
+  'gear.name': 'Name',
+  'gear.chargerPlaceholder': 'Anker 30W PD',
+  'gear.cablePlaceholder': '1m USB-C braided',
+  'gear.notes': 'Notes',
+  'gear.add.charger': 'Add Charger',
+  'gear.add.cable': 'Add Cable',
+
+  'insights.title': 'Insight Provider',
+  'insights.unavailable': 'Unavailable',
+  'insights.provider.gemini': 'Google Gemini',
+  'insights.provider.openai-compatible': 'OpenAI-compatible server',
+  'insights.provider.offline': 'Offline analyzer',
+  'insights.note.gemini': 'Cloud analysis. Needs an API key and a network connection.',
+  'insights.note.openai-compatible': 'Any server with an OpenAI-style chat API, e.g. a local model.',
+  'insights.note.offline': 'Rule-based grade computed on this device. Always available.',
+  'insights.baseUrl': 'Base URL',
+  'insights.model': 'Model',
+  'insights.apiKey': 'API Key (optional)',
+  'insights.fallbackNote': 'When the selected provider is unreachable, the offline analyzer is used instead.',
+
+  'simulator.title': 'Simulated Battery',
+  'simulator.unplug': 'Unplug',
+  'simulator.plugIn': 'Plug In',
+  'simulator.exit': 'Exit',
+  'unsupported.title': 'Battery Telemetry Unavailable',
+  'unsupported.body': 'This browser does not expose the Battery Status API, which VoltFlow needs for live readings. It is available in Chrome, Edge and other Chromium browsers, but not in Firefox or Safari.',
+  'unsupported.launch': 'Launch Simulator',
+  'unsupported.note': 'Simulates a fast charge from 20% on a synthetic CC/CV curve. Archived sessions stay browsable.',
+
+  'goals.title': 'Charging Goals',
+  'goals.coaching': 'Longevity Coaching: {state}',
+  'goals.coachingNote': 'Keeping the charge between the limits slows capacity loss. Sessions are scored on time spent above the upper limit.',
+  'goals.lower': 'Lower Limit',
+  'goals.upper': 'Upper Limit',
+  'goals.readyBy': 'Ready By (optional)',
+  'goals.readyByNote': 'With a ready-by time, VoltFlow tells you the latest time to plug in to reach {percent} by then.',
+  'goals.weekly': 'Weekly Record',
+  'goals.noWeeks': 'No scored sessions yet. Sessions are scored once goals are on.',
+  'goals.weekOf': 'Week of {date}',
+  'goals.withinLimit': '{within}/{total} sessions within limit',
+  'goals.over': '{duration} over',
+
+  'fleetSettings.title': 'Fleet Sync',
+  'fleetSettings.share': 'Share This Device: {state}',
+  'fleetSettings.shareNote': 'Pushes live level, wattage and finished sessions to a fleet receiver on your network. Nothing leaves the network you point it at.',
+  'fleetSettings.url': 'Receiver URL',
+  'fleetSettings.deviceName': 'Device Name',
+  'fleetSettings.token': 'Token (optional)',
+  'fleetSettings.help': 'Start the receiver with {command} on any machine on the network. Set FLEET_TOKEN there to require the same token here.',
+  'fleetSettings.connected': 'Connected',
+  'fleetSettings.notSyncing': 'Not Syncing',
+  'fleetSettings.waiting': 'Waiting For Receiver URL',
+  'fleetSettings.lastPush': 'Last push {time}',
+  'fleetSettings.noPush': 'No push yet',
+
+  'fleet.unreachable': 'Receiver unreachable',
+  'fleet.notConfigured': 'Not configured',
+  'fleet.devices': 'Devices',
+  'fleet.setupNote': 'Point VoltFlow at a fleet receiver to see every device that reports to it.',
+  'fleet.setup': 'Set Up Fleet Sync →',
+  'fleet.connecting': 'Connecting...',
+  'fleet.empty': 'No devices have reported yet.',
+  'fleet.state.offline': 'Offline',
+  'fleet.state.charging': 'Charging',
+  'fleet.state.draining': 'Draining',
+  'fleet.state.idle': 'Idle',
+  'fleet.thisDevice': 'This device',
+  'fleet.simulated': 'Simulated',
+  'fleet.secondsAgo': '{seconds}s ago',
+  'fleet.ago': '{duration} ago',
+
+  'compare.ranking': 'Charger Ranking',
+  'compare.noRanking': 'Tag charging sessions with a charger to rank them.',
+  'compare.median': 'Median',
+  'compare.overlay': 'Wattage Overlay',
+  'compare.selectNote': 'Select sessions below to overlay their wattage curves.',
+  'compare.noSessions': 'No charging sessions recorded yet.',
+
+  'health.estimate': 'Capacity Estimate',
+  'health.tile.health': 'Health',
+  'health.tile.effective': 'Effective',
+  'health.tile.rated': 'Rated',
+  'health.tile.cycles': 'Cycles',
+  'health.tile.fadeTrend': 'Fade Trend',
+  'health.tile.peakTrend': 'Peak W Trend',
+  'health.tile.dataPoints': 'Data Points',
+  'health.tile.latestPeak': 'Latest Peak',
+  'health.threshold': 'Warn below',
+  'health.thresholdOption': '{percent} health',
+  'health.warning': 'Estimated health is {percent}, below your {threshold} threshold. Consider a battery service.',
+  'health.note': 'Compares how fast each charging session gains level at full current with the first three sessions on the same charger. A worn battery fills sooner, so this reads fade relative to the battery as first monitored, not to a lab measurement.',
+  'health.fade': 'Capacity Fade',
+  'health.series.health': 'Health %',
+  'health.series.peak': 'Peak W',
+  'health.empty': 'Record a few charging sessions on the same charger to chart capacity fade.',
+
+  'stats.range.days': '{count}D',
+  'stats.range.year': '1Y',
+  'stats.mode.charging': 'Charging',
+  'stats.mode.discharging': 'Drain',
+  'stats.from': 'From',
+  'stats.to': 'To',
+  'stats.charger': 'Charger',
+  'stats.allChargers': 'All chargers',
+  'stats.device': 'Device',
+  'stats.allDevices': 'All devices',
+  'stats.tile.sessions': 'Sessions',
+  'stats.tile.totalCharged': 'Total Charged',
+  'stats.tile.totalDrained': 'Total Drained',
+  'stats.tile.avgLength': 'Avg Length',
+  'stats.tile.avgGain': 'Avg Gain',
+  'stats.tile.avgDrain': 'Avg Drain',
+  'stats.empty': 'No sessions match these filters.',
+  'stats.perDay': 'Sessions Per Day',
+  'stats.levels': 'Start & End Levels',
+  'stats.wattage': 'Wattage Distribution',
+  'stats.timeOfDay': 'Time of Day',
+  'stats.series.sessions': 'Sessions',
+  'stats.series.energy': 'Energy Wh',
+  'stats.series.started': 'Started',
+  'stats.series.ended': 'Ended',
+  'stats.series.minutes': 'Minutes',
+  'stats.series.starts': 'Session starts',
+  'stats.axis.weekday': 'Weekday',
+  'stats.axis.hour': 'Hour',
+
+  'profile.error.name': 'Name is required',
+  'profile.error.capacity': 'Capacity must be between 500 and 30000 mAh',
+  'profile.error.voltage': 'Nominal voltage must be between 2.5 and 5 V',
+  'profile.error.chemistry': 'Unknown chemistry',
+  'gear.error.kind': 'Unknown gear type',
+  'gear.error.name': 'Name is required',
+  'gear.error.ratedWatts': 'Rated wattage must be between 0 and 240 W',
+  'fleetSettings.error.protocol': 'Endpoint must be an http(s) URL',
+  'fleetSettings.error.url': 'Endpoint must be a URL such as http://192.168.1.20:8787',
+  'fleetSettings.error.receiver': 'Receiver: {error}',
+  'fleetSettings.error.status': 'Receiver responded {status}',
+  'fleetSettings.error.timeout': 'Receiver did not respond',
+  'fleetSettings.error.unreachable': 'Receiver is unreachable',
+  'fleetSettings.error.failed': 'Sync failed',
+
+  'offline.verdict.A': 'fast charging at PD/PPS levels',
+  'offline.verdict.B': 'solid quick charging',
+  'offline.verdict.C': 'moderate charging, typical of a basic quick-charge brick',
+  'offline.verdict.D': 'slow, standard USB-level charging',
+  'offline.verdict.F': 'very slow charging that suggests a weak charger, a poor cable or a PC port',
+  'offline.summary': '{average}W average ({peak}W peak) indicates {verdict}. {stability}',
+  'offline.stability.fewSamples': 'Too few samples were recorded to judge stability.',
+  'offline.stability.swings': 'Power swung widely during the session.',
+  'offline.stability.tapered': 'Output peaked well above the average and then tapered, the normal pattern near full.',
+  'offline.stability.steady': 'Output was steady throughout.',
+  'offline.flag.short': 'Session too short for a reliable assessment.',
+  'offline.flag.unstable': 'Unstable power delivery: possible loose cable, thermal throttling or an overloaded charger.',
+  'offline.flag.slow': 'Average power of {watts}W is well below quick-charge levels.',
+  'offline.rec.longer': 'Let the next session run longer before unplugging.',
+  'offline.rec.cable': 'Try a different cable and keep the phone cool while charging.',
+  'offline.rec.charger': 'Use a USB-C PD charger of at least 20W with a rated cable.',
+  'offline.rec.none': 'No changes needed; this charger and cable are performing well.',
+
+  'import.notJson': 'File is not valid JSON',
+  'import.notExport': 'Not a VoltFlow session export',
+  'import.version': 'Unsupported export version {version}',
+  'import.noSessions': 'Export has no sessions',
+  'import.csvColumns': 'CSV is missing VoltFlow columns',
+  'import.sampleObject': 'Session {session}: sample must be an object',
+  'import.sampleNumber': 'Session {session}: sample {field} must be a number',
+  'import.sampleStatus': "Session {session}: sample status must be 'charging' or 'discharging'",
+  'import.missingStats': 'Session {session}: missing stats',
+  'import.number': 'Session {session}: {field} must be a number',
+  'import.numberOrNull': 'Session {session}: {field} must be a number or null',
+  'import.mode': "Session {session}: mode must be 'charging' or 'discharging'",
+  'import.string': 'Session {session}: {field} must be a string',
+  'import.malformed': 'Session {session}: {field} is malformed',
+  'import.profile': 'Session {session}: invalid profile ({detail})',
+  'import.logs': 'Session {session}: logs must be an array',
+} as const;
+
+export type MessageKey = keyof typeof en;
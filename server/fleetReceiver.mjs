@@ -0,0 +1,172 @@
+// VoltFlow fleet receiver: collects live telemetry and finished sessions from
+// VoltFlow clients on the local network and serves them back to the fleet view.
+// No dependencies; run with `npm run fleet` (PORT, HOST and FLEET_TOKEN are read from the environment,
+// TLS_CERT and TLS_KEY name PEM files to serve over HTTPS).
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+import https from 'node:https';
+import { pathToFileURL } from 'node:url';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_SESSIONS_PER_DEVICE = 100;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+const ID_PATTERN = /^[\w-]{1,64}$/;
+
+class RequestError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new RequestError(413, 'Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+    } catch {
+      reject(new RequestError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const requireDevice = (body) => {
+  if (!body || typeof body.deviceId !== 'string' || !ID_PATTERN.test(body.deviceId)) {
+    throw new RequestError(400, 'deviceId is required');
+  }
+  return { deviceId: body.deviceId, name: typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 80) : body.deviceId };
+};
+
+/**
+ * Builds the receiver without listening, so tests can bind it to any port.
+ * Devices and sessions are kept in memory for the life of the process.
+ * With `tls` ({ cert, key }) it serves HTTPS, which an app loaded over HTTPS
+ * needs to reach it at all.
+ */
+export function createFleetReceiver({ token = '', now = () => Date.now(), tls = null } = {}) {
+  const devices = new Map();
+  const streams = new Set();
+
+  // Ages come from the receiver's clock, so clients never compare it with their own
+  const deviceList = () => [...devices.values()]
+    .map(({ sessions, ...device }) => ({ ...device, ageMs: now() - device.lastSeen, sessionCount: sessions.length }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const broadcast = () => {
+    const payload = `data: ${JSON.stringify(deviceList())}\n\n`;
+    streams.forEach((res) => res.write(payload));
+  };
+
+  const touch = ({ deviceId, name }) => {
+    const device = devices.get(deviceId) ?? { deviceId, name, telemetry: null, lastSeen: 0, sessions: [] };
+    device.name = name;
+    device.lastSeen = now();
+    devices.set(deviceId, device);
+    return device;
+  };
+
+  const routes = {
+    'POST /api/telemetry': async (req) => {
+      const body = await readJson(req);
+      if (!Number.isFinite(body?.level) || typeof body.charging !== 'boolean') {
+        throw new RequestError(400, 'level and charging are required');
+      }
+      const device = touch(requireDevice(body));
+      device.telemetry = body;
+      broadcast();
+      return { ok: true };
+    },
+    'POST /api/sessions': async (req) => {
+      const body = await readJson(req);
+      const device = touch(requireDevice(body));
+      const session = body.session;
+      if (!session || !Number.isFinite(session.id) || !session.stats || !Array.isArray(session.logs)) {
+        throw new RequestError(400, 'session must be a stored VoltFlow session');
+      }
+      // Re-sent sessions (after a failed push) replace the earlier copy
+      device.sessions = [session, ...device.sessions.filter((s) => s.id !== session.id)]
+        .sort((a, b) => b.id - a.id)
+        .slice(0, MAX_SESSIONS_PER_DEVICE);
+      broadcast();
+      return { ok: true };
+    },
+    'GET /api/devices': async () => deviceList(),
+  };
+
+  const handle = async (req, res) => {
+    // The app is usually served from a different origin than the receiver
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://receiver');
+    // EventSource cannot send headers, so the stream takes the token as a query parameter
+    const presented = req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? url.searchParams.get('token') ?? '';
+    if (token && presented !== token) {
+      res.writeHead(401, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Invalid token' }));
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/api/stream') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+      res.write(`data: ${JSON.stringify(deviceList())}\n\n`);
+      const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), STREAM_HEARTBEAT_MS);
+      streams.add(res);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        streams.delete(res);
+      });
+      return;
+    }
+
+    const sessionsMatch = req.method === 'GET' && url.pathname.match(/^\/api\/devices\/([\w-]+)\/sessions$/);
+    const handler = sessionsMatch
+      ? async () => devices.get(sessionsMatch[1])?.sessions ?? []
+      : routes[`${req.method} ${url.pathname}`];
+
+    try {
+      if (!handler) throw new RequestError(404, 'Not found');
+      const result = await handler(req);
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(result));
+    } catch (error) {
+      const status = error instanceof RequestError ? error.status : 500;
+      if (status === 500) console.error('Fleet receiver error:', error);
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: error.message }));
+    }
+  };
+
+  const server = tls ? https.createServer(tls, handle) : http.createServer(handle);
+
+  // Open event streams would otherwise keep close() waiting forever
+  server.on('close', () => streams.forEach((res) => res.end()));
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 8787;
+  const host = process.env.HOST || '0.0.0.0';
+  const { TLS_CERT, TLS_KEY } = process.env;
+  if (Boolean(TLS_CERT) !== Boolean(TLS_KEY)) {
+    console.error('Set both TLS_CERT and TLS_KEY to serve HTTPS');
+    process.exit(1);
+  }
+  const tls = TLS_CERT ? { cert: readFileSync(TLS_CERT), key: readFileSync(TLS_KEY) } : null;
+  createFleetReceiver({ token: process.env.FLEET_TOKEN || '', tls }).listen(port, host, () => {
+    console.log(`VoltFlow fleet receiver listening on ${tls ? 'https' : 'http'}://${host}:${port}`);
+  });
+}
@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+const listFiles = (dir: string, base = dir): string[] =>
+  !fs.existsSync(dir) ? [] : fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full, base) : [path.relative(base, full).split(path.sep).join('/')];
+  });
+
+/**
+ * Emits `sw.js` with the precache list of everything the build writes
+ * (hashed bundles plus `public/`) and a cache version derived from their
+ * contents, so each deploy installs a fresh cache and drops the old one.
+ */
+export function serviceWorker(template = 'sw.js'): Plugin {
+  let config: ResolvedConfig;
+  return {
+    name: 'voltflow-service-worker',
+    apply: 'build',
+    // After vite:build-html, so index.html is already in the bundle
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    generateBundle(_options, bundle) {
+      const hash = createHash('sha256');
+      const source = fs.readFileSync(path.resolve(config.root, template), 'utf-8');
+      hash.update(source);
+
+      const emitted = Object.values(bundle)
+        .filter(chunk => !chunk.fileName.endsWith('.map'))
+        .map(chunk => {
+          hash.update(chunk.fileName);
+          hash.update(chunk.type === 'chunk' ? chunk.code : chunk.source);
+          return chunk.fileName;
+        });
+      const publicFiles = config.publicDir ? listFiles(config.publicDir) : [];
+      publicFiles.forEach(file => hash.update(fs.readFileSync(path.join(config.publicDir, file))));
+
+      const urls = ['./', ...emitted, ...publicFiles].sort();
+      const build = { version: hash.digest('hex').slice(0, 12), urls };
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `self.__VF_BUILD = ${JSON.stringify(build)};\n${source}`
+      });
+    }
+  };
+}
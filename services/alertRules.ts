@@ -0,0 +1,136 @@
+import { AlertRule } from '../types';
+import { I18n } from './i18n';
+
+const RULES_KEY = 'vf-alert-rules';
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'default-level-80', enabled: true, kind: 'level-reached', level: 80 },
+  { id: 'default-unplugged', enabled: false, kind: 'unplugged' },
+];
+
+export interface AlertSnapshot {
+  now: number;
+  isCharging: boolean;
+  // 0..1
+  level: number;
+  watts: number;
+  // When the level last changed, or when charging started
+  lastLevelChangeAt: number;
+}
+
+// Per-rule bookkeeping so a condition fires once instead of on every tick
+export type AlertRuleState = Record<string, { armed: boolean; conditionSince: number | null }>;
+
+export interface FiredAlert {
+  rule: AlertRule;
+  title: string;
+  body: string;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    const saved = localStorage.getItem(RULES_KEY);
+    const parsed = saved ? JSON.parse(saved) : DEFAULT_ALERT_RULES;
+    return Array.isArray(parsed) ? parsed : DEFAULT_ALERT_RULES;
+  } catch {
+    return DEFAULT_ALERT_RULES;
+  }
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+}
+
+export function describeAlertRule({ t, percent, duration }: I18n, rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'level-reached':
+      return t('alerts.rule.level-reached', { level: percent(rule.level / 100) });
+    case 'unplugged':
+      return t('alerts.rule.unplugged');
+    case 'low-wattage':
+      return t('alerts.rule.low-wattage', { watts: rule.watts, duration: duration(rule.minutes * MS_PER_MINUTE) });
+    case 'stalled':
+      return t('alerts.rule.stalled', { duration: duration(rule.minutes * MS_PER_MINUTE) });
+  }
+}
+
+function alertMessage({ t, percent, watts, duration }: I18n, rule: AlertRule, snapshot: AlertSnapshot): { title: string; body: string } {
+  const level = percent(snapshot.level);
+  switch (rule.kind) {
+    case 'level-reached':
+      return { title: t('alerts.levelReachedTitle', { level }), body: t('alerts.levelReachedBody', { target: percent(rule.level / 100) }) };
+    case 'unplugged':
+      return { title: t('alerts.unpluggedTitle'), body: t('alerts.unpluggedBody', { level }) };
+    case 'low-wattage':
+      return { title: t('alerts.lowWattageTitle'), body: t('alerts.lowWattageBody', { watts: rule.watts, duration: duration(rule.minutes * MS_PER_MINUTE), current: watts(snapshot.watts) }) };
+    case 'stalled':
+      return { title: t('alerts.stalledTitle'), body: t('alerts.stalledBody', { level, duration: duration(rule.minutes * MS_PER_MINUTE) }) };
+  }
+}
+
+/** Whether the rule's condition currently holds, ignoring how long it has held. */
+function conditionHolds(rule: AlertRule, prev: AlertSnapshot | null, current: AlertSnapshot): boolean {
+  switch (rule.kind) {
+    case 'level-reached':
+      return current.isCharging && current.level * 100 >= rule.level;
+    case 'unplugged':
+      return !!prev && prev.isCharging && !current.isCharging;
+    case 'low-wattage':
+      // 0W means the estimator has no reading yet, which is not the same as slow charging
+      return current.isCharging && current.watts > 0 && current.watts < rule.watts;
+    case 'stalled':
+      return current.isCharging && current.level < 1 && current.now - current.lastLevelChangeAt >= rule.minutes * MS_PER_MINUTE;
+  }
+}
+
+/**
+ * Evaluates enabled rules against the latest telemetry. A rule fires when its
+ * condition has held long enough, then stays disarmed until the condition
+ * clears, so a bench full of phones does not get re-notified every tick.
+ * Notification text is written in `i18n`'s language.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  prev: AlertSnapshot | null,
+  current: AlertSnapshot,
+  state: AlertRuleState,
+  i18n: I18n
+): { fired: FiredAlert[]; state: AlertRuleState } {
+  const next: AlertRuleState = {};
+  const fired: FiredAlert[] = [];
+
+  for (const rule of rules) {
+    const entry = state[rule.id] ?? { armed: true, conditionSince: null };
+    if (!rule.enabled) {
+      next[rule.id] = { armed: true, conditionSince: null };
+      continue;
+    }
+
+    if (!conditionHolds(rule, prev, current)) {
+      next[rule.id] = { armed: true, conditionSince: null };
+      continue;
+    }
+
+    // Plugging in above the alert level is not "reaching" it
+    const crossed = rule.kind !== 'level-reached' || entry.conditionSince !== null || (!!prev && prev.level * 100 < rule.level);
+    const armed = entry.armed && crossed;
+    const since = entry.conditionSince ?? current.now;
+    const requiredMs = rule.kind === 'low-wattage' ? rule.minutes * MS_PER_MINUTE : 0;
+    if (armed && current.now - since >= requiredMs) {
+      fired.push({ rule, ...alertMessage(i18n, rule, current) });
+      next[rule.id] = { armed: false, conditionSince: since };
+    } else {
+      next[rule.id] = { armed, conditionSince: since };
+    }
+  }
+  return { fired, state: next };
+}
+
+// Omit applied to each member of the AlertRule union rather than to their common keys
+export type AlertRuleDraft = AlertRule extends infer R ? (R extends AlertRule ? Omit<R, 'id' | 'enabled'> : never) : never;
+
+export function createAlertRule(draft: AlertRuleDraft): AlertRule {
+  return { ...draft, id: `rule-${Date.now()}`, enabled: true };
+}
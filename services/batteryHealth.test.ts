@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SessionStats } from '../types';
+import { assessBatteryHealth } from './batteryHealth';
+import { DEFAULT_PROFILE, capacityWh } from './deviceProfiles';
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+const RATED_WH = capacityWh(DEFAULT_PROFILE);
+
+const charge = (day: number, overrides: Partial<SessionStats> = {}): SessionStats => ({
+  mode: 'charging', startTime: T0 + day * DAY, endTime: T0 + day * DAY + 3600000, startLevel: 0.2, endLevel: 0.8,
+  avgWattage: 10, maxWattage: 15, avgVoltage: 5, maxAmperage: 2, totalEnergyWh: 0.6 * RATED_WH,
+  chargerId: 'brick', bulkPercentPerHour: 60, ...overrides
+});
+
+describe('assessBatteryHealth', () => {
+  it('reads fade from a faster bulk rate on the same charger', () => {
+    const sessions = [charge(0), charge(1), charge(2), charge(30, { bulkPercentPerHour: 75 })];
+    const result = assessBatteryHealth(sessions, DEFAULT_PROFILE, 85);
+    expect(result.points.map(p => Math.round(p.healthPercent))).toEqual([100, 100, 100, 80]);
+    expect(result.healthPercent).toBeCloseTo(100);
+    expect(result.cycles).toBeCloseTo(2.4);
+    expect(result.belowThreshold).toBe(false);
+
+    const worn = assessBatteryHealth([...sessions, charge(31, { bulkPercentPerHour: 75 }), charge(32, { bulkPercentPerHour: 75 })], DEFAULT_PROFILE, 85);
+    expect(worn.healthPercent).toBeCloseTo(80);
+    expect(worn.effectiveCapacityWh).toBeCloseTo(0.8 * RATED_WH);
+    expect(worn.healthTrendPerMonth).toBeLessThan(0);
+    expect(worn.belowThreshold).toBe(true);
+  });
+
+  it('ignores the rated capacity the wattage was derived from', () => {
+    const sessions = [charge(0), charge(1), charge(2, { totalEnergyWh: 0.3 * RATED_WH })];
+    expect(assessBatteryHealth(sessions, DEFAULT_PROFILE, 80).healthPercent).toBeCloseTo(100);
+  });
+
+  it('compares each charger with its own baseline', () => {
+    const result = assessBatteryHealth([
+      charge(0), charge(1), charge(2),
+      charge(3, { chargerId: 'fast', bulkPercentPerHour: 120 }),
+      charge(4, { chargerId: 'fast', bulkPercentPerHour: 120 }),
+      charge(5, { chargerId: 'fast', bulkPercentPerHour: 120 }),
+    ], DEFAULT_PROFILE, 80);
+    expect(result.healthPercent).toBeCloseTo(100);
+    expect(result.belowThreshold).toBe(false);
+  });
+
+  it('skips unmeasured sessions, drain sessions, other profiles and chargers without a baseline', () => {
+    const result = assessBatteryHealth([
+      charge(0, { bulkPercentPerHour: undefined }),
+      charge(1, { mode: 'discharging' }),
+      charge(2, { profile: { ...DEFAULT_PROFILE, id: 'tablet' } }),
+      charge(3), charge(4),
+    ], DEFAULT_PROFILE, 80);
+    expect(result.points).toEqual([]);
+    expect(result.healthPercent).toBeNull();
+    expect(result.healthTrendPerMonth).toBeNull();
+    expect(result.belowThreshold).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { DeviceProfile, SessionStats } from '../types';
+import { DEFAULT_PROFILE, capacityWh } from './deviceProfiles';
+import { median, sessionMode } from './sessionStatistics';
+
+const THRESHOLD_KEY = 'vf-health-threshold';
+
+export const DEFAULT_HEALTH_THRESHOLD = 80;
+export const HEALTH_THRESHOLD_OPTIONS = [70, 75, 80, 85, 90];
+
+// The earliest sessions on a charger set the rate the later ones are compared with
+const BASELINE_SESSIONS = 3;
+// The headline health is the median of this many most recent estimates
+const RECENT_WINDOW = 5;
+const MS_PER_MONTH = 30 * 24 * 60 * 60 * 1000;
+
+export interface HealthPoint {
+  time: number;
+  capacityWh: number;
+  // Effective capacity as a percentage of the profile's rated capacity
+  healthPercent: number;
+  peakWattage: number;
+}
+
+export interface HealthAssessment {
+  points: HealthPoint[];
+  cycles: number;
+  ratedCapacityWh: number;
+  effectiveCapacityWh: number | null;
+  healthPercent: number | null;
+  // Least-squares slopes; null with fewer than two points
+  healthTrendPerMonth: number | null;
+  peakTrendPerMonth: number | null;
+  belowThreshold: boolean;
+}
+
+export function loadHealthThreshold(): number {
+  const saved = Number(localStorage.getItem(THRESHOLD_KEY));
+  return HEALTH_THRESHOLD_OPTIONS.includes(saved) ? saved : DEFAULT_HEALTH_THRESHOLD;
+}
+
+export function saveHealthThreshold(threshold: number) {
+  localStorage.setItem(THRESHOLD_KEY, String(threshold));
+}
+
+function slopePerMonth(points: { time: number; value: number }[]): number | null {
+  if (points.length < 2) return null;
+  const meanT = points.reduce((a, p) => a + p.time, 0) / points.length;
+  const meanV = points.reduce((a, p) => a + p.value, 0) / points.length;
+  let num = 0;
+  let den = 0;
+  for (const p of points) {
+    num += (p.time - meanT) * (p.value - meanV);
+    den += (p.time - meanT) ** 2;
+  }
+  return den > 0 ? (num / den) * MS_PER_MONTH : null;
+}
+
+// Sessions are only comparable on the same charger; untagged ones fall back to the voltage rail
+const chargerKey = (s: SessionStats) => s.chargerId ?? s.voltageTier ?? '';
+
+/**
+ * Health comes from the level rate in the constant-current phase, which the
+ * charger holds steady: a battery that has lost capacity gains each percent
+ * sooner. Each session is compared with the earliest sessions on the same
+ * charger, so the figure is relative to the battery as first monitored and
+ * assumes it was near its rated capacity then.
+ */
+export function assessBatteryHealth(sessions: SessionStats[], profile: DeviceProfile, threshold: number): HealthAssessment {
+  const ratedCapacityWh = capacityWh(profile);
+  const charging = sessions
+    .filter(s => sessionMode(s) === 'charging' && s.endLevel !== null)
+    .filter(s => (s.profile?.id ?? DEFAULT_PROFILE.id) === profile.id)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const cycles = charging.reduce((sum, s) => sum + Math.max((s.endLevel ?? s.startLevel) - s.startLevel, 0), 0);
+
+  const byCharger = new Map<string, SessionStats[]>();
+  for (const s of charging) {
+    if (s.bulkPercentPerHour === undefined) continue;
+    byCharger.set(chargerKey(s), [...(byCharger.get(chargerKey(s)) ?? []), s]);
+  }
+
+  const points: HealthPoint[] = [...byCharger.values()]
+    .filter(group => group.length >= BASELINE_SESSIONS)
+    .flatMap(group => {
+      const baseline = median(group.slice(0, BASELINE_SESSIONS).map(s => s.bulkPercentPerHour!))!;
+      return group.map(s => {
+        const healthPercent = (baseline / s.bulkPercentPerHour!) * 100;
+        return {
+          time: s.startTime,
+          capacityWh: (ratedCapacityWh * healthPercent) / 100,
+          healthPercent,
+          peakWattage: s.maxWattage,
+        };
+      });
+    })
+    .sort((a, b) => a.time - b.time);
+
+  const recent = points.slice(-RECENT_WINDOW);
+  const healthPercent = median(recent.map(p => p.healthPercent));
+  const effectiveCapacityWh = healthPercent !== null ? (ratedCapacityWh * healthPercent) / 100 : null;
+
+  return {
+    points,
+    cycles,
+    ratedCapacityWh,
+    effectiveCapacityWh,
+    healthPercent,
+    healthTrendPerMonth: slopePerMonth(points.map(p => ({ time: p.time, value: p.healthPercent }))),
+    peakTrendPerMonth: slopePerMonth(points.map(p => ({ time: p.time, value: p.peakWattage }))),
+    belowThreshold: healthPercent !== null && healthPercent < threshold,
+  };
+}
@@ -0,0 +1,192 @@
+import { BatteryManager, ChargingLog } from '../types';
+
+export type SimulatorScript =
+  | {
+      kind: 'cccv';
+      startLevel: number;
+      capacityWh: number;
+      // Power during the constant-current phase
+      ccWatts: number;
+      // Level at which the constant-voltage taper begins
+      cvOnset: number;
+      // Power drawn while unplugged
+      drainWatts: number;
+    }
+  | { kind: 'trace'; logs: ChargingLog[] };
+
+export interface SimulatorOptions {
+  script: SimulatorScript;
+  // Simulated seconds per real second
+  speed: number;
+  startTime?: number;
+}
+
+export const DEFAULT_CCCV_SCRIPT: Extract<SimulatorScript, { kind: 'cccv' }> = {
+  kind: 'cccv',
+  startLevel: 0.2,
+  capacityWh: 19.25,
+  ccWatts: 18,
+  cvOnset: 0.8,
+  drainWatts: 2,
+};
+
+export const SIMULATOR_SPEEDS = [1, 10, 30, 60, 120, 300];
+
+const TICK_MS = 250;
+// Floor of the CV taper as a fraction of the CC power
+const TRICKLE_FRACTION = 0.05;
+
+/** Charging power of the synthetic curve at a given level. */
+export function cccvWatts(script: Extract<SimulatorScript, { kind: 'cccv' }>, level: number): number {
+  if (level >= 1) return 0;
+  if (level < script.cvOnset) return script.ccWatts;
+  return script.ccWatts * Math.max((1 - level) / (1 - script.cvOnset), TRICKLE_FRACTION);
+}
+
+function cccvSecondsToFull(script: Extract<SimulatorScript, { kind: 'cccv' }>, level: number): number {
+  let seconds = 0;
+  for (let l = level; l < 1; l += 0.01) {
+    const step = Math.min(0.01, 1 - l);
+    seconds += (step * script.capacityWh * 3600) / cccvWatts(script, l);
+  }
+  return seconds;
+}
+
+/**
+ * Scriptable stand-in for the browser's BatteryManager. It reports levels in
+ * 1% steps and fires the same events, so the app cannot tell it apart from
+ * real hardware. Time runs `speed` times faster than the wall clock.
+ */
+export class SimulatedBattery extends EventTarget implements BatteryManager {
+  charging = true;
+  chargingTime = Infinity;
+  dischargingTime = Infinity;
+  level = 0;
+  onchargingchange: ((this: BatteryManager, ev: Event) => any) | null = null;
+  onchargingtimechange: ((this: BatteryManager, ev: Event) => any) | null = null;
+  ondischargingtimechange: ((this: BatteryManager, ev: Event) => any) | null = null;
+  onlevelchange: ((this: BatteryManager, ev: Event) => any) | null = null;
+
+  private script: SimulatorScript;
+  private speed: number;
+  private simulatedNow: number;
+  private lastTick: number;
+  private exactLevel: number;
+  private traceIndex = 0;
+  private traceStart = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor({ script, speed, startTime = Date.now() }: SimulatorOptions) {
+    super();
+    this.script = script;
+    this.speed = speed;
+    this.simulatedNow = startTime;
+    this.lastTick = Date.now();
+
+    if (script.kind === 'trace') {
+      const first = script.logs[0];
+      this.exactLevel = first ? first.level / 100 : 0;
+      this.charging = first ? first.status === 'charging' : false;
+      this.traceStart = startTime;
+    } else {
+      this.exactLevel = script.startLevel;
+    }
+    this.level = Math.floor(this.exactLevel * 100) / 100;
+    this.updateTimes();
+  }
+
+  now(): number {
+    return this.simulatedNow;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  setCharging(charging: boolean) {
+    if (charging === this.charging) return;
+    this.charging = charging;
+    this.emit('chargingchange');
+    this.updateTimes();
+  }
+
+  /** Advances simulated time; called by the internal timer, or directly by tests. */
+  advance(simulatedMs: number) {
+    this.simulatedNow += simulatedMs;
+    if (this.script.kind === 'trace') {
+      this.advanceTrace(this.script.logs);
+    } else {
+      this.advanceCurve(this.script, simulatedMs / 1000);
+    }
+  }
+
+  private tick() {
+    const wall = Date.now();
+    this.advance((wall - this.lastTick) * this.speed);
+    this.lastTick = wall;
+  }
+
+  private advanceCurve(script: Extract<SimulatorScript, { kind: 'cccv' }>, seconds: number) {
+    const watts = this.charging ? cccvWatts(script, this.exactLevel) : -script.drainWatts;
+    this.exactLevel = Math.min(Math.max(this.exactLevel + (watts * seconds) / (script.capacityWh * 3600), 0), 1);
+    this.setLevel(Math.floor(this.exactLevel * 100 + 1e-9) / 100);
+  }
+
+  private advanceTrace(logs: ChargingLog[]) {
+    const elapsed = this.simulatedNow - this.traceStart;
+    while (this.traceIndex < logs.length && logs[this.traceIndex].timestamp - logs[0].timestamp <= elapsed) {
+      const log = logs[this.traceIndex++];
+      this.setCharging(log.status === 'charging');
+      this.exactLevel = log.level / 100;
+      this.setLevel(Math.round(log.level) / 100);
+    }
+  }
+
+  private setLevel(level: number) {
+    if (level === this.level) return;
+    this.level = level;
+    this.emit('levelchange');
+    this.updateTimes();
+  }
+
+  private updateTimes() {
+    const script = this.script;
+    let chargingTime = Infinity;
+    let dischargingTime = Infinity;
+    if (script.kind === 'cccv') {
+      if (this.charging) chargingTime = Math.round(cccvSecondsToFull(script, this.exactLevel));
+      else dischargingTime = Math.round((this.exactLevel * script.capacityWh * 3600) / script.drainWatts);
+    } else if (this.charging && this.level >= 1) {
+      chargingTime = 0;
+    }
+    if (chargingTime !== this.chargingTime) {
+      this.chargingTime = chargingTime;
+      this.emit('chargingtimechange');
+    }
+    if (dischargingTime !== this.dischargingTime) {
+      this.dischargingTime = dischargingTime;
+      this.emit('dischargingtimechange');
+    }
+  }
+
+  private emit(type: 'chargingchange' | 'levelchange' | 'chargingtimechange' | 'dischargingtimechange') {
+    const event = new Event(type);
+    this.dispatchEvent(event);
+    this[`on${type}`]?.call(this, event);
+  }
+}
@@ -0,0 +1,90 @@
+import { BatteryManager } from '../types';
+import { DEFAULT_CCCV_SCRIPT, SimulatedBattery, SimulatorScript } from './batterySimulator';
+import { getSession } from './sessionStore';
+import { releaseClockSource, setClockSource } from './clock';
+
+export interface BatterySource {
+  kind: 'browser' | 'simulator';
+  battery: BatteryManager;
+  // Present only for the simulator, to drive it from the UI
+  simulator: SimulatedBattery | null;
+  dispose: () => void;
+}
+
+export type SimulatorFlag =
+  | { script: 'cccv'; speed: number; startLevel: number; watts: number }
+  | { script: 'trace'; speed: number; sessionId: number };
+
+const DEFAULT_SPEED = 30;
+
+export function browserBatterySupported(): boolean {
+  return typeof navigator !== 'undefined' && 'getBattery' in navigator;
+}
+
+/**
+ * Reads the simulator flag from a query string:
+ * `?simulate` or `?simulate=cccv&level=20&watts=18&speed=30` for a synthetic
+ * CC/CV curve, `?simulate=trace&session=<startTime>` to replay an archived session.
+ */
+export function parseSimulatorFlag(search: string): SimulatorFlag | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('simulate')) return null;
+  const num = (key: string, fallback: number) => {
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const speed = num('speed', DEFAULT_SPEED);
+
+  if (params.get('simulate') === 'trace') {
+    const sessionId = num('session', NaN);
+    return Number.isNaN(sessionId) ? null : { script: 'trace', speed, sessionId };
+  }
+  return {
+    script: 'cccv',
+    speed,
+    startLevel: Math.min(num('level', DEFAULT_CCCV_SCRIPT.startLevel * 100), 100) / 100,
+    watts: num('watts', DEFAULT_CCCV_SCRIPT.ccWatts),
+  };
+}
+
+export function simulatorUrl(flag: string = 'cccv'): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set('simulate', flag);
+  return url.toString();
+}
+
+export function createSimulatorSource(script: SimulatorScript, speed: number): BatterySource {
+  const simulator = new SimulatedBattery({ script, speed });
+  const clock = () => simulator.now();
+  setClockSource(clock);
+  simulator.start();
+  return {
+    kind: 'simulator',
+    battery: simulator,
+    simulator,
+    dispose: () => {
+      simulator.stop();
+      releaseClockSource(clock);
+    }
+  };
+}
+
+async function simulatorScript(flag: SimulatorFlag): Promise<SimulatorScript | null> {
+  if (flag.script === 'cccv') {
+    return { ...DEFAULT_CCCV_SCRIPT, startLevel: flag.startLevel, ccWatts: flag.watts };
+  }
+  const session = await getSession(flag.sessionId);
+  return session && session.logs.length > 0 ? { kind: 'trace', logs: session.logs } : null;
+}
+
+/** The simulator when the URL asks for it, otherwise the browser's battery; null when neither is available. */
+export async function openBatterySource(search: string): Promise<BatterySource | null> {
+  const flag = parseSimulatorFlag(search);
+  if (flag) {
+    const script = await simulatorScript(flag);
+    if (script) return createSimulatorSource(script, flag.speed);
+  }
+  if (!browserBatterySupported()) return null;
+  const battery: BatteryManager = await (navigator as any).getBattery();
+  return { kind: 'browser', battery, simulator: null, dispose: () => {} };
+}
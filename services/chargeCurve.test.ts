@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ChargingLog } from '../types';
+import { detectChargePhases, inferBusElectricals, inferProtocolTier, inferVoltageTier, measureBulkRate } from './chargeCurve';
+
+const MINUTE = 60 * 1000;
+const START = new Date(2026, 0, 7, 8, 0).getTime();
+
+// Samples `stepMs` apart; each segment lists [wattage, level] pairs in order
+const curve = (points: [number, number][], stepMs = MINUTE): ChargingLog[] =>
+  points.map(([wattage, level], i) => ({
+    timestamp: START + i * stepMs, level, wattage, voltage: 9, amperage: wattage / 9, status: 'charging'
+  }));
+
+const repeat = (count: number, wattage: (i: number) => number, level: (i: number) => number): [number, number][] =>
+  Array.from({ length: count }, (_, i) => [wattage(i), level(i)]);
+
+describe('chargeCurve tiers', () => {
+  it('derives the voltage rail from the same protocol thresholds', () => {
+    expect([4, 7.5, 15, 20, 30].map(w => [inferProtocolTier(w), inferVoltageTier(w)])).toEqual([
+      ['usb-standard', 'usb-5v'],
+      ['usb-bc', 'usb-5v'],
+      ['quick-charge', 'fast-9v'],
+      ['usb-pd', 'fast-9v'],
+      ['pd-pps', 'pd-12v'],
+    ]);
+    expect(inferProtocolTier(0)).toBe('unknown');
+    expect(inferBusElectricals(18)).toEqual({ volts: 9, amps: 2 });
+  });
+});
+
+describe('detectChargePhases', () => {
+  it('splits a clean curve into constant current, taper and trickle', () => {
+    const logs = curve([
+      ...repeat(30, () => 20, i => 40 + i),
+      ...repeat(20, i => 15 - i * 0.35, i => 70 + i),
+      ...repeat(10, () => 2, i => 95 + i * 0.5),
+    ]);
+    const phases = detectChargePhases(logs);
+    expect(phases.map(p => p.phase)).toEqual(['cc', 'cv', 'trickle']);
+    expect(phases[0].start).toBe(START);
+    expect(phases[phases.length - 1].end).toBe(logs[logs.length - 1].timestamp);
+    // Spans meet without gaps or overlaps
+    expect(phases[1].start).toBe(phases[0].end);
+    expect(phases[2].start).toBe(phases[1].end);
+  });
+
+  it('labels a mid-charge dip well below full as throttling', () => {
+    const logs = curve([
+      ...repeat(15, () => 20, i => 30 + i),
+      ...repeat(10, () => 8, i => 45 + i * 0.5),
+      ...repeat(15, () => 20, i => 50 + i),
+    ]);
+    expect(detectChargePhases(logs).map(p => p.phase)).toEqual(['cc', 'throttle', 'cc']);
+  });
+
+  it('folds short blips into the surrounding phase', () => {
+    // Three low samples 30 s apart survive smoothing but last under the minimum span
+    const logs = curve([
+      ...repeat(20, () => 20, i => 30 + i * 0.5),
+      ...repeat(3, () => 6, () => 40),
+      ...repeat(20, () => 20, i => 40 + i * 0.5),
+    ], MINUTE / 2);
+    const phases = detectChargePhases(logs);
+    expect(phases).toEqual([{ phase: 'cc', start: START, end: logs[logs.length - 1].timestamp }]);
+  });
+
+  it('needs a few samples before classifying', () => {
+    expect(detectChargePhases(curve(repeat(3, () => 20, i => 50 + i)))).toEqual([]);
+  });
+});
+
+describe('measureBulkRate', () => {
+  const at = (minutes: number) => START + minutes * MINUTE;
+
+  it('counts only the constant-current spans', () => {
+    // 1% a minute at full current, a fifth of that while throttled
+    const logs = curve(repeat(31, () => 20, i => (i <= 10 ? 40 + i : i <= 20 ? 50 + (i - 10) * 0.2 : 52 + (i - 20))));
+    const phases = [
+      { phase: 'cc' as const, start: at(0), end: at(10) },
+      { phase: 'throttle' as const, start: at(10), end: at(20) },
+      { phase: 'cc' as const, start: at(20), end: at(30) },
+    ];
+    expect(measureBulkRate(logs, phases)).toBeCloseTo(60);
+  });
+
+  it('needs enough constant-current time', () => {
+    const logs = curve(repeat(6, () => 20, i => 40 + i));
+    expect(measureBulkRate(logs, [{ phase: 'cc', start: at(0), end: at(5) }])).toBeNull();
+  });
+});
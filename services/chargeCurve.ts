@@ -0,0 +1,157 @@
+import { ChargePhase, ChargePhaseSpan, ChargingLog, ProtocolTier, VoltageTier } from '../types';
+
+export const PHASE_META: Record<ChargePhase, { color: string }> = {
+  cc: { color: '#10b981' },
+  cv: { color: '#6366f1' },
+  trickle: { color: '#94a3b8' },
+  throttle: { color: '#f43f5e' },
+};
+
+export const VOLTAGE_TIER_META: Record<VoltageTier, { label: string; volts: number }> = {
+  'usb-5v': { label: 'USB 5V', volts: 5 },
+  'fast-9v': { label: 'QC/PD 9V', volts: 9 },
+  'pd-12v': { label: 'PD 12V+', volts: 12 },
+};
+
+export interface PhaseDetectionOptions {
+  // Samples in the moving median that smooths the estimator's noise
+  smoothingWindow: number;
+  // Fraction of the plateau wattage still counted as constant current
+  ccRatio: number;
+  // Level (%) above which a power drop is the expected CV taper rather than throttling
+  taperOnsetLevel: number;
+  // Fraction of the plateau wattage below which a nearly full battery is trickling
+  trickleRatio: number;
+  trickleLevel: number;
+  // Shorter runs are folded into the preceding phase
+  minSpanMs: number;
+  minSamples: number;
+}
+
+export const DEFAULT_PHASE_OPTIONS: PhaseDetectionOptions = {
+  smoothingWindow: 5,
+  ccRatio: 0.8,
+  taperOnsetLevel: 70,
+  trickleRatio: 0.2,
+  trickleLevel: 95,
+  minSpanMs: 2 * 60 * 1000,
+  minSamples: 4,
+};
+
+// Less constant-current time than this gives too coarse a level rate to compare sessions by
+const MIN_BULK_MS = 10 * 60 * 1000;
+
+// Peak wattage each charging protocol can deliver, lowest first, and the rail it runs on
+const PROTOCOL_TIERS: { tier: ProtocolTier; ceiling: number; voltageTier: VoltageTier }[] = [
+  { tier: 'usb-standard', ceiling: 5.5, voltageTier: 'usb-5v' },
+  { tier: 'usb-bc', ceiling: 8, voltageTier: 'usb-5v' },
+  { tier: 'quick-charge', ceiling: 18.5, voltageTier: 'fast-9v' },
+  { tier: 'usb-pd', ceiling: 27, voltageTier: 'fast-9v' },
+  { tier: 'pd-pps', ceiling: Infinity, voltageTier: 'pd-12v' },
+];
+
+/**
+ * The Battery Status API exposes no electrical readings, so the charging
+ * protocol is inferred from the wattage: above what a tier can deliver the
+ * charger must have negotiated the next one.
+ */
+export function inferProtocolTier(watts: number): ProtocolTier {
+  if (watts <= 0) return 'unknown';
+  return PROTOCOL_TIERS.find(({ ceiling }) => watts <= ceiling)?.tier ?? 'unknown';
+}
+
+/** Bus voltage of the protocol tier the wattage implies. */
+export function inferVoltageTier(watts: number): VoltageTier {
+  return PROTOCOL_TIERS.find(({ ceiling }) => watts <= ceiling)?.voltageTier ?? 'usb-5v';
+}
+
+export function inferBusElectricals(watts: number): { volts: number; amps: number } {
+  if (watts <= 0) return { volts: VOLTAGE_TIER_META['usb-5v'].volts, amps: 0 };
+  const volts = VOLTAGE_TIER_META[inferVoltageTier(watts)].volts;
+  return { volts, amps: watts / volts };
+}
+
+function movingMedian(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - half), i + half + 1).sort((a, b) => a - b);
+    return slice[Math.floor(slice.length / 2)];
+  });
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(Math.floor(p * sorted.length), sorted.length - 1)];
+}
+
+/**
+ * Splits a charging session into phases. The plateau is the session's robust
+ * peak; power near it is constant current, and a fall below it is either the
+ * CV taper (battery nearly full) or thermal throttling (it is not).
+ */
+export function detectChargePhases(logs: ChargingLog[], options: PhaseDetectionOptions = DEFAULT_PHASE_OPTIONS): ChargePhaseSpan[] {
+  if (logs.length < options.minSamples) return [];
+  const smoothed = movingMedian(logs.map(l => l.wattage), options.smoothingWindow);
+  const plateau = percentile(smoothed, 0.9);
+  if (plateau <= 0) return [];
+
+  const classify = (watts: number, level: number): ChargePhase => {
+    if (level >= options.trickleLevel && watts <= plateau * options.trickleRatio) return 'trickle';
+    if (watts >= plateau * options.ccRatio) return 'cc';
+    return level >= options.taperOnsetLevel ? 'cv' : 'throttle';
+  };
+
+  const runs: ChargePhaseSpan[] = [];
+  logs.forEach((log, i) => {
+    const phase = classify(smoothed[i], log.level);
+    const last = runs[runs.length - 1];
+    if (last && last.phase === phase) {
+      last.end = log.timestamp;
+    } else {
+      if (last) last.end = log.timestamp;
+      runs.push({ phase, start: log.timestamp, end: log.timestamp });
+    }
+  });
+
+  // Fold blips into their predecessor, then re-join neighbours that now match
+  const spans: ChargePhaseSpan[] = [];
+  for (const run of runs) {
+    const prev = spans[spans.length - 1];
+    if (prev && (run.end - run.start < options.minSpanMs || prev.phase === run.phase)) {
+      prev.end = run.end;
+    } else {
+      spans.push({ ...run });
+    }
+  }
+  return spans;
+}
+
+/** Tier the session spent its fast portion in; the 90th percentile ignores one-off spikes. */
+export function detectVoltageTier(logs: ChargingLog[]): VoltageTier | null {
+  const watts = logs.map(l => l.wattage).filter(w => w > 0);
+  return watts.length ? inferVoltageTier(percentile(watts, 0.9)) : null;
+}
+
+/**
+ * Percent gained per hour across the constant-current spans. It comes from
+ * the level alone, so unlike the wattage it does not depend on the profile's
+ * rated capacity: on the same charger a worn battery simply fills faster.
+ */
+export function measureBulkRate(logs: ChargingLog[], phases: ChargePhaseSpan[]): number | null {
+  const levelAt = new Map(logs.map(l => [l.timestamp, l.level]));
+  let gained = 0;
+  let duration = 0;
+  for (const span of phases) {
+    if (span.phase !== 'cc') continue;
+    gained += (levelAt.get(span.end) ?? 0) - (levelAt.get(span.start) ?? 0);
+    duration += span.end - span.start;
+  }
+  return duration >= MIN_BULK_MS && gained > 0 ? gained / (duration / 3600000) : null;
+}
+
+export function analyzeChargeCurve(logs: ChargingLog[]): { phases: ChargePhaseSpan[]; voltageTier?: VoltageTier; bulkPercentPerHour?: number } {
+  const phases = detectChargePhases(logs);
+  const voltageTier = detectVoltageTier(logs);
+  const bulkPercentPerHour = measureBulkRate(logs, phases);
+  return { phases, ...(voltageTier ? { voltageTier } : {}), ...(bulkPercentPerHour !== null ? { bulkPercentPerHour } : {}) };
+}
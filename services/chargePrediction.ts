@@ -0,0 +1,128 @@
+import { PredictionRecord } from '../types';
+
+export interface PredictionInput {
+  // Current battery level (0..1)
+  level: number;
+  // BatteryManager.chargingTime in seconds; Infinity or 0 when unknown
+  chargingTime: number;
+  // Smoothed charging power and its confidence from the power estimator
+  watts: number;
+  confidence: number;
+  capacityWh: number;
+}
+
+export interface ChargePrediction {
+  fullInSeconds: number | null;
+  // Epoch ms at which `target` is reached; null if unknown or already past it
+  targetAt: number | null;
+  target: number;
+  source: 'none' | 'browser' | 'curve' | 'blended';
+}
+
+export const PREDICTION_TARGETS = [0.8, 1];
+// Predictions made on a shakier estimate than this are not recorded for accuracy tracking
+export const MIN_RECORD_CONFIDENCE = 0.5;
+
+// Li-ion packs switch to constant-voltage around 80%, after which current tapers off
+const TAPER_START = 0.8;
+const TAPER_END_FACTOR = 0.25;
+// How much the browser's own estimate counts against a fully confident curve
+const BROWSER_WEIGHT = 0.5;
+
+/** Relative charge rate at a level, 1 during bulk charging and falling linearly during the taper. */
+export function taperFactor(level: number): number {
+  if (level <= TAPER_START) return 1;
+  const progress = Math.min((level - TAPER_START) / (1 - TAPER_START), 1);
+  return 1 - progress * (1 - TAPER_END_FACTOR);
+}
+
+/**
+ * Seconds to go from `from` to `to` when the bulk rate is `bulkRate`
+ * (level fraction per hour), integrating the taper in 1% steps.
+ */
+export function curveSecondsBetween(from: number, to: number, bulkRate: number): number | null {
+  if (bulkRate <= 0) return null;
+  if (to <= from) return 0;
+  const step = 0.01;
+  let seconds = 0;
+  for (let l = from; l < to; l += step) {
+    const span = Math.min(step, to - l);
+    seconds += (span / (bulkRate * taperFactor(l + span / 2))) * 3600;
+  }
+  return seconds;
+}
+
+export function predictCharge(input: PredictionInput, target: number, now: number): ChargePrediction {
+  const { level, chargingTime, watts, confidence, capacityWh } = input;
+  const browserFull = Number.isFinite(chargingTime) && chargingTime > 0 ? chargingTime : null;
+
+  // The observed rate already includes any taper at the current level; undo it to get the bulk rate
+  const observedRate = capacityWh > 0 ? watts / capacityWh : 0;
+  const bulkRate = observedRate / taperFactor(level);
+  const curveFull = confidence > 0 ? curveSecondsBetween(level, 1, bulkRate) : null;
+  const curveTarget = confidence > 0 ? curveSecondsBetween(level, target, bulkRate) : null;
+
+  let fullInSeconds: number | null = null;
+  let source: ChargePrediction['source'] = 'none';
+  if (browserFull !== null && curveFull !== null) {
+    fullInSeconds = (browserFull * BROWSER_WEIGHT + curveFull * confidence) / (BROWSER_WEIGHT + confidence);
+    source = 'blended';
+  } else if (browserFull !== null) {
+    fullInSeconds = browserFull;
+    source = 'browser';
+  } else if (curveFull !== null) {
+    fullInSeconds = curveFull;
+    source = 'curve';
+  }
+
+  let targetSeconds: number | null = null;
+  if (level < target) {
+    if (curveTarget !== null && curveFull) {
+      // Keep the target on the same time scale as the blended time-to-full
+      targetSeconds = fullInSeconds !== null ? fullInSeconds * (curveTarget / curveFull) : curveTarget;
+    } else if (browserFull !== null) {
+      // Without an observed curve, assume the browser's estimate is spread evenly over the remaining charge
+      targetSeconds = browserFull * (target - level) / (1 - level);
+    }
+  }
+
+  return {
+    fullInSeconds: level >= 1 ? 0 : fullInSeconds,
+    targetAt: targetSeconds !== null ? now + targetSeconds * 1000 : null,
+    target,
+    source
+  };
+}
+
+/**
+ * Records the first confident prediction for each target and stamps the
+ * actual time once the level gets there, so finished sessions carry
+ * predicted-vs-actual pairs.
+ */
+export function updatePredictionRecords(
+  records: PredictionRecord[],
+  input: PredictionInput,
+  now: number
+): PredictionRecord[] {
+  let next = records.map(r => (r.actualAt === null && input.level >= r.target ? { ...r, actualAt: now } : r));
+
+  if (input.confidence >= MIN_RECORD_CONFIDENCE) {
+    for (const target of PREDICTION_TARGETS) {
+      if (input.level >= target || next.some(r => r.target === target)) continue;
+      const prediction = predictCharge(input, target, now);
+      const predictedAt = target >= 1
+        ? (prediction.fullInSeconds !== null ? now + prediction.fullInSeconds * 1000 : null)
+        : prediction.targetAt;
+      if (predictedAt === null) continue;
+      next = [...next, { target, madeAt: now, madeAtLevel: input.level, predictedAt, actualAt: null }];
+    }
+  }
+  return next;
+}
+
+/** Seconds until empty at the current drain, preferring the browser's dischargingTime when it has one. */
+export function projectRuntimeSeconds(level: number, watts: number, capacityWh: number, dischargingTime: number): number | null {
+  if (Number.isFinite(dischargingTime) && dischargingTime > 0) return dischargingTime;
+  if (watts <= 0 || capacityWh <= 0) return null;
+  return ((level * capacityWh) / watts) * 3600;
+}
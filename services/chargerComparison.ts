@@ -0,0 +1,58 @@
+import { GearItem, StoredSession } from '../types';
+import { median, sampleWeights, sessionMode, weightedPercentile } from './sessionStatistics';
+
+export interface ChargerRanking {
+  charger: GearItem;
+  sessionCount: number;
+  // Time-weighted median over every sample of every session on this charger
+  medianWattage: number;
+  // Median 20→80% time across the sessions that covered that range
+  median20to80Ms: number | null;
+}
+
+/**
+ * Time the session took to climb from `from`% to `to`%, or null if it did not
+ * start at or below `from` or never reached `to`.
+ */
+export function levelSpanMs({ stats, logs }: StoredSession, from: number, to: number): number | null {
+  const startLevel = stats.startLevel * 100;
+  if (startLevel > from) return null;
+  const startAt = startLevel === from ? stats.startTime : logs.find(l => l.level >= from)?.timestamp;
+  const endAt = logs.find(l => l.level >= to)?.timestamp;
+  return startAt !== undefined && endAt !== undefined && endAt > startAt ? endAt - startAt : null;
+}
+
+/** Ranks chargers fastest first; sessions without a charger tag are ignored. */
+export function rankChargers(sessions: StoredSession[], gear: GearItem[]): ChargerRanking[] {
+  return gear
+    .filter(g => g.kind === 'charger')
+    .map(charger => {
+      const tagged = sessions.filter(s => s.stats.chargerId === charger.id && sessionMode(s.stats) === 'charging' && s.logs.length > 0);
+      const watts = tagged.flatMap(s => s.logs.map(l => l.wattage));
+      const weights = tagged.flatMap(s => sampleWeights(s.logs, s.stats.startTime));
+      const spans = tagged.map(s => levelSpanMs(s, 20, 80)).filter((ms): ms is number => ms !== null);
+      return {
+        charger,
+        sessionCount: tagged.length,
+        medianWattage: weightedPercentile(watts, weights, 0.5),
+        median20to80Ms: median(spans),
+      };
+    })
+    .filter(r => r.sessionCount > 0)
+    .sort((a, b) => b.medianWattage - a.medianWattage || (a.median20to80Ms ?? Infinity) - (b.median20to80Ms ?? Infinity));
+}
+
+export const overlayKey = (session: StoredSession) => `s${session.id}`;
+
+/**
+ * Chart rows for overlaying sessions on a shared "minutes since plug-in" axis.
+ * Each row carries a single session's reading; the chart bridges the gaps.
+ */
+export function overlayWattage(sessions: StoredSession[]): Record<string, number>[] {
+  return sessions
+    .flatMap(s => s.logs.map(l => ({
+      minute: Math.round((l.timestamp - s.stats.startTime) / 6000) / 10,
+      [overlayKey(s)]: parseFloat(l.wattage.toFixed(1)),
+    })))
+    .sort((a, b) => a.minute - b.minute);
+}
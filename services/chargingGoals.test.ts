@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ChargingLog, SessionStats } from '../types';
+import {
+  DEFAULT_CHARGING_GOALS, goalStatus, nextReadyBy, planCharge, scoreSession, timeAboveLimitMs,
+  validateChargingGoals, weekStart, weeklyGoalSummary
+} from './chargingGoals';
+
+const MINUTE = 60 * 1000;
+const T0 = new Date(2026, 0, 7, 22, 0).getTime(); // a Wednesday, local time
+const goals = { ...DEFAULT_CHARGING_GOALS, enabled: true };
+
+const stats = (overrides: Partial<SessionStats> = {}): SessionStats => ({
+  mode: 'charging', startTime: T0, endTime: T0 + 60 * MINUTE, startLevel: 0.7, endLevel: 0.9,
+  avgWattage: 10, maxWattage: 12, avgVoltage: 9, maxAmperage: 1.3, totalEnergyWh: 4, ...overrides
+});
+
+const log = (minute: number, level: number): ChargingLog => ({
+  timestamp: T0 + minute * MINUTE, level, wattage: 10, voltage: 9, amperage: 1.1, status: 'charging'
+});
+
+describe('chargingGoals', () => {
+  it('rejects limits that are too close or out of range', () => {
+    expect(validateChargingGoals(goals)).toBeNull();
+    expect(validateChargingGoals({ ...goals, lowerLimit: 0.75 })).toMatch(/10%/);
+    expect(validateChargingGoals({ ...goals, upperLimit: 1.2 })).toMatch(/Upper/);
+    expect(validateChargingGoals({ ...goals, readyBy: '7am' })).toMatch(/HH:MM/);
+  });
+
+  it('tells the user to unplug once the upper limit is reached', () => {
+    expect(goalStatus(0.79, true, goals)).toBe('in-range');
+    expect(goalStatus(0.8, true, goals)).toBe('unplug');
+    expect(goalStatus(0.85, false, goals)).toBe('above-limit');
+    expect(goalStatus(0.15, false, goals)).toBe('below-lower');
+  });
+
+  it('counts time above the limit from the sample that crossed it', () => {
+    const logs = [log(10, 75), log(20, 80), log(30, 81), log(45, 85)];
+    // 81% from minute 30 until the session ends at minute 60
+    expect(timeAboveLimitMs(stats(), logs, 0.8, T0 + 60 * MINUTE)).toBe(30 * MINUTE);
+    expect(timeAboveLimitMs(stats({ startLevel: 0.85 }), [], 0.8, T0 + 5 * MINUTE)).toBe(5 * MINUTE);
+  });
+
+  it('scores a finished session', () => {
+    const score = scoreSession(stats({ startLevel: 0.15 }), [log(10, 50), log(40, 82)], goals);
+    expect(score).toEqual({ lowerLimit: 0.2, upperLimit: 0.8, msAboveLimit: 20 * MINUTE, peakLevel: 0.9, startedBelowLower: true });
+  });
+
+  it('plans when to plug in for a ready-by time', () => {
+    const readyAt = nextReadyBy('07:00', T0);
+    expect(new Date(readyAt).getHours()).toBe(7);
+    expect(readyAt - T0).toBe(9 * 60 * MINUTE);
+
+    // 30% of a 20 Wh pack at 20 W, all below the taper: 18 minutes
+    const plan = planCharge(0.5, { ...goals, readyBy: '07:00' }, 20, 20, T0);
+    expect(plan?.chargeSeconds).toBeCloseTo(18 * 60);
+    expect(plan?.startBy).toBeCloseTo(readyAt - 18 * MINUTE);
+    expect(planCharge(0.5, goals, 20, 20, T0)).toBeNull();
+    expect(planCharge(0.5, { ...goals, readyBy: '07:00' }, null, 20, T0)?.startBy).toBeNull();
+  });
+
+  it('aggregates scored sessions by week', () => {
+    const monday = weekStart(T0);
+    expect(new Date(monday).getDay()).toBe(1);
+    const score = (msAboveLimit: number) => ({ lowerLimit: 0.2, upperLimit: 0.8, msAboveLimit, peakLevel: 0.8, startedBelowLower: false });
+    const weeks = weeklyGoalSummary([
+      stats({ goal: score(0) }),
+      stats({ startTime: T0 + MINUTE, goal: score(10 * MINUTE) }),
+      stats({ startTime: T0 - 7 * 24 * 60 * MINUTE, goal: score(5 * MINUTE) }),
+      stats({ startTime: T0 + 2 * MINUTE })
+    ]);
+    expect(weeks).toEqual([
+      { weekStart: monday, sessions: 2, withinLimit: 1, msAboveLimit: 10 * MINUTE },
+      { weekStart: weekStart(T0 - 7 * 24 * 60 * MINUTE), sessions: 1, withinLimit: 0, msAboveLimit: 5 * MINUTE }
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { ChargingGoals, ChargingLog, GoalScore, SessionStats } from '../types';
+import { curveSecondsBetween } from './chargePrediction';
+import { sessionMode } from './sessionStatistics';
+
+const GOALS_KEY = 'vf-charging-goals';
+const READY_BY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Typical charging power is taken from this many recent charging sessions
+const TYPICAL_WATTS_SESSIONS = 10;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CHARGING_GOALS: ChargingGoals = {
+  enabled: false,
+  lowerLimit: 0.2,
+  upperLimit: 0.8,
+  readyBy: null,
+};
+
+export const LOWER_LIMIT_OPTIONS = [0.1, 0.15, 0.2, 0.25, 0.3, 0.4];
+export const UPPER_LIMIT_OPTIONS = [0.6, 0.7, 0.75, 0.8, 0.85, 0.9, 1];
+
+export function loadChargingGoals(): ChargingGoals {
+  try {
+    const saved = localStorage.getItem(GOALS_KEY);
+    const parsed = saved ? { ...DEFAULT_CHARGING_GOALS, ...JSON.parse(saved) } : DEFAULT_CHARGING_GOALS;
+    return validateChargingGoals(parsed) === null ? parsed : DEFAULT_CHARGING_GOALS;
+  } catch {
+    return DEFAULT_CHARGING_GOALS;
+  }
+}
+
+export function saveChargingGoals(goals: ChargingGoals) {
+  localStorage.setItem(GOALS_KEY, JSON.stringify(goals));
+}
+
+/** Returns a human-readable problem with the goals, or null if they are usable. */
+export function validateChargingGoals(goals: ChargingGoals): string | null {
+  const { lowerLimit, upperLimit, readyBy } = goals;
+  if (!Number.isFinite(lowerLimit) || lowerLimit <= 0 || lowerLimit >= 1) return 'Lower limit must be between 0 and 100%';
+  if (!Number.isFinite(upperLimit) || upperLimit <= 0 || upperLimit > 1) return 'Upper limit must be between 0 and 100%';
+  if (upperLimit - lowerLimit < 0.1) return 'Upper limit must be at least 10% above the lower limit';
+  if (readyBy !== null && !READY_BY_PATTERN.test(readyBy)) return 'Ready-by time must be HH:MM';
+  return null;
+}
+
+export type GoalStatus = 'below-lower' | 'in-range' | 'unplug' | 'above-limit';
+
+export function goalStatus(level: number, charging: boolean, goals: ChargingGoals): GoalStatus {
+  if (charging && level >= goals.upperLimit) return 'unplug';
+  if (level > goals.upperLimit) return 'above-limit';
+  if (level < goals.lowerLimit) return 'below-lower';
+  return 'in-range';
+}
+
+/** Epoch ms of the next local occurrence of an "HH:MM" time. */
+export function nextReadyBy(readyBy: string, now: number): number {
+  const [hours, minutes] = readyBy.split(':').map(Number);
+  const at = new Date(now);
+  at.setHours(hours, minutes, 0, 0);
+  return at.getTime() <= now ? at.getTime() + MS_PER_DAY : at.getTime();
+}
+
+/** Median bulk power of recent charging sessions, or null without any history. */
+export function typicalChargeWatts(sessions: SessionStats[]): number | null {
+  const watts = sessions
+    .filter(s => sessionMode(s) === 'charging' && s.endTime !== null && s.avgWattage > 0)
+    .sort((a, b) => b.startTime - a.startTime)
+    .slice(0, TYPICAL_WATTS_SESSIONS)
+    .map(s => s.p50Wattage ?? s.avgWattage)
+    .sort((a, b) => a - b);
+  return watts.length > 0 ? watts[Math.floor(watts.length / 2)] : null;
+}
+
+export interface ChargePlan {
+  readyAt: number;
+  // Seconds of charging from the current level to the upper limit; null without a usable rate
+  chargeSeconds: number | null;
+  // Latest time to plug in and still reach the upper limit by `readyAt`
+  startBy: number | null;
+}
+
+/** Works back from the ready-by time to when charging has to start. */
+export function planCharge(level: number, goals: ChargingGoals, watts: number | null, capacityWh: number, now: number): ChargePlan | null {
+  if (!goals.readyBy) return null;
+  const readyAt = nextReadyBy(goals.readyBy, now);
+  if (level >= goals.upperLimit) return { readyAt, chargeSeconds: 0, startBy: null };
+  const chargeSeconds = watts && capacityWh > 0 ? curveSecondsBetween(level, goals.upperLimit, watts / capacityWh) : null;
+  return { readyAt, chargeSeconds, startBy: chargeSeconds !== null ? readyAt - chargeSeconds * 1000 : null };
+}
+
+/** Time the level sat above `upperLimit`, treating each sample's level as holding until the next one. */
+export function timeAboveLimitMs(stats: SessionStats, logs: ChargingLog[], upperLimit: number, until: number): number {
+  const limit = Math.round(upperLimit * 100);
+  let level = stats.startLevel * 100;
+  let since = stats.startTime;
+  let total = 0;
+  for (const log of logs) {
+    if (level > limit) total += log.timestamp - since;
+    level = log.level;
+    since = log.timestamp;
+  }
+  if (level > limit) total += Math.max(until - since, 0);
+  return total;
+}
+
+export function scoreSession(stats: SessionStats, logs: ChargingLog[], goals: ChargingGoals): GoalScore {
+  const end = stats.endTime ?? logs[logs.length - 1]?.timestamp ?? stats.startTime;
+  return {
+    lowerLimit: goals.lowerLimit,
+    upperLimit: goals.upperLimit,
+    msAboveLimit: timeAboveLimitMs(stats, logs, goals.upperLimit, end),
+    peakLevel: Math.max(stats.startLevel, stats.endLevel ?? 0, ...logs.map(l => l.level / 100)),
+    startedBelowLower: stats.startLevel < goals.lowerLimit,
+  };
+}
+
+export interface WeeklyGoalSummary {
+  // Local midnight of the week's Monday
+  weekStart: number;
+  sessions: number;
+  // Sessions that never went above their upper limit
+  withinLimit: number;
+  msAboveLimit: number;
+}
+
+export function weekStart(time: number): number {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day.getTime();
+}
+
+/** Scored sessions grouped by week, newest week first. */
+export function weeklyGoalSummary(sessions: SessionStats[]): WeeklyGoalSummary[] {
+  const weeks = new Map<number, WeeklyGoalSummary>();
+  for (const s of sessions) {
+    if (!s.goal) continue;
+    const key = weekStart(s.startTime);
+    const week = weeks.get(key) ?? { weekStart: key, sessions: 0, withinLimit: 0, msAboveLimit: 0 };
+    week.sessions += 1;
+    week.withinLimit += s.goal.msAboveLimit === 0 ? 1 : 0;
+    week.msAboveLimit += s.goal.msAboveLimit;
+    weeks.set(key, week);
+  }
+  return [...weeks.values()].sort((a, b) => b.weekStart - a.weekStart);
+}
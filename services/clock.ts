@@ -0,0 +1,18 @@
+let source: () => number = () => Date.now();
+
+/**
+ * Current time for session bookkeeping. The battery simulator swaps in its own
+ * accelerated clock so estimated wattage stays realistic at any replay speed.
+ */
+export function now(): number {
+  return source();
+}
+
+export function setClockSource(next: () => number) {
+  source = next;
+}
+
+/** Restores the wall clock, unless another source has taken over since `previous` was installed. */
+export function releaseClockSource(previous: () => number) {
+  if (source === previous) source = () => Date.now();
+}
@@ -0,0 +1,70 @@
+import { BatteryChemistry, DeviceProfile } from '../types';
+import { MessageKey } from './i18n';
+
+const CUSTOM_PROFILES_KEY = 'vf-profiles';
+const ACTIVE_PROFILE_KEY = 'vf-profile';
+
+export const PRESET_PROFILES: DeviceProfile[] = [
+  { id: 'generic-5000', name: 'Generic 5000 mAh', capacityMah: 5000, nominalVoltage: 3.85, chemistry: 'li-ion' },
+  { id: 'generic-4400', name: 'Generic 4400 mAh', capacityMah: 4400, nominalVoltage: 3.85, chemistry: 'li-ion' },
+  { id: 'generic-3000', name: 'Generic 3000 mAh', capacityMah: 3000, nominalVoltage: 3.8, chemistry: 'li-ion' },
+];
+
+export const DEFAULT_PROFILE = PRESET_PROFILES[0];
+
+export const CHEMISTRY_LABELS: Record<BatteryChemistry, string> = {
+  'li-ion': 'Li-ion',
+  'li-po': 'Li-Po',
+  'li-fepo4': 'LiFePO4',
+};
+
+export function capacityWh(profile: DeviceProfile): number {
+  return (profile.capacityMah * profile.nominalVoltage) / 1000;
+}
+
+export function isPresetProfile(id: string): boolean {
+  return PRESET_PROFILES.some(p => p.id === id);
+}
+
+export function loadCustomProfiles(): DeviceProfile[] {
+  try {
+    const saved = localStorage.getItem(CUSTOM_PROFILES_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(p => validateProfile(p) === null) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomProfiles(profiles: DeviceProfile[]) {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE.id;
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+export function resolveProfile(profiles: DeviceProfile[], id: string): DeviceProfile {
+  return profiles.find(p => p.id === id) || DEFAULT_PROFILE;
+}
+
+/** Returns the message key of a problem with the profile, or null if it is usable. */
+export function validateProfile(profile: Partial<DeviceProfile>): MessageKey | null {
+  if (!profile.name || !profile.name.trim()) return 'profile.error.name';
+  if (!Number.isFinite(profile.capacityMah) || profile.capacityMah! < 500 || profile.capacityMah! > 30000) {
+    return 'profile.error.capacity';
+  }
+  if (!Number.isFinite(profile.nominalVoltage) || profile.nominalVoltage! < 2.5 || profile.nominalVoltage! > 5) {
+    return 'profile.error.voltage';
+  }
+  if (profile.chemistry && !(profile.chemistry in CHEMISTRY_LABELS)) return 'profile.error.chemistry';
+  return null;
+}
+
+export function createProfile(fields: Omit<DeviceProfile, 'id'>): DeviceProfile {
+  return { ...fields, name: fields.name.trim(), id: `custom-${Date.now()}` };
+}
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { FleetSettings, FleetTelemetry, StoredSession } from '../types';
+import { createFleetReceiver } from '../server/fleetReceiver.mjs';
+import { DEFAULT_FLEET_SETTINGS, FleetSyncError, deviceId, fetchDeviceSessions, fetchFleet, pushSession, pushTelemetry } from './fleetSync';
+
+const T0 = Date.UTC(2026, 0, 1, 8);
+
+const telemetry = (deviceId: string, name: string, overrides: Partial<FleetTelemetry> = {}): FleetTelemetry => ({
+  deviceId, name, level: 0.42, charging: true, monitoring: true, watts: 18.5, volts: 9, amps: 2.05, confidence: 0.8,
+  sessionStart: T0, profileName: 'Generic Phone', simulated: false, at: T0, ...overrides
+});
+
+const session = (start: number): StoredSession => ({
+  id: start,
+  stats: {
+    mode: 'charging', startTime: start, endTime: start + 60 * 60 * 1000, startLevel: 0.2, endLevel: 0.8,
+    avgWattage: 10, maxWattage: 12, avgVoltage: 9, maxAmperage: 1.3, totalEnergyWh: 12
+  },
+  logs: []
+});
+
+describe('fleetSync against the bundled receiver', () => {
+  let server: Server | null = null;
+  let receiverNow = T0;
+
+  const start = async (token = '') => {
+    receiverNow = T0;
+    const receiver = createFleetReceiver({ token, now: () => receiverNow });
+    server = receiver;
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    const { port } = receiver.address() as AddressInfo;
+    return { ...DEFAULT_FLEET_SETTINGS, enabled: true, endpoint: `http://127.0.0.1:${port}/`, token } satisfies FleetSettings;
+  };
+
+  const stop = async () => {
+    const running = server;
+    server = null;
+    if (running) await new Promise(resolve => running.close(resolve));
+  };
+
+  afterEach(stop);
+
+  it('lists pushed devices with their latest telemetry', async () => {
+    const settings = await start();
+    await pushTelemetry(settings, telemetry('phone-b', 'Bench B', { level: 0.5 }));
+    await pushTelemetry(settings, telemetry('phone-a', 'Bench A'));
+    await pushTelemetry(settings, telemetry('phone-b', 'Bench B', { level: 0.51, charging: false }));
+
+    const devices = await fetchFleet(settings);
+    expect(devices.map(d => d.name)).toEqual(['Bench A', 'Bench B']);
+    expect(devices[1]).toMatchObject({ deviceId: 'phone-b', lastSeen: T0, sessionCount: 0 });
+    expect(devices[1].telemetry).toMatchObject({ level: 0.51, charging: false });
+  });
+
+  it('reports device ages from the receiver clock', async () => {
+    const settings = await start();
+    await pushTelemetry(settings, telemetry('phone-a', 'Bench A', { at: T0 + 60 * 60 * 1000 }));
+    receiverNow = T0 + 90 * 1000;
+    expect((await fetchFleet(settings))[0]).toMatchObject({ lastSeen: T0, ageMs: 90 * 1000 });
+  });
+
+  it('stores finished sessions per device, replacing re-sent copies', async () => {
+    const settings = await start();
+    const device = { deviceId: 'phone-a', name: 'Bench A' };
+    await pushSession(settings, device, session(T0));
+    await pushSession(settings, device, session(T0 + 1000));
+    await pushSession(settings, device, session(T0));
+
+    expect((await fetchDeviceSessions(settings, 'phone-a')).map(s => s.id)).toEqual([T0 + 1000, T0]);
+    expect((await fetchFleet(settings))[0]).toMatchObject({ sessionCount: 2, telemetry: null });
+    await expect(pushSession(settings, device, { id: T0 } as StoredSession)).rejects.toThrow(/stored VoltFlow session/);
+  });
+
+  it('rejects clients without the receiver token', async () => {
+    const settings = await start('secret');
+    await expect(fetchFleet({ ...settings, token: 'wrong' })).rejects.toBeInstanceOf(FleetSyncError);
+    await expect(fetchFleet(settings)).resolves.toEqual([]);
+  });
+
+  it('reports an unreachable receiver', async () => {
+    const settings = await start();
+    await stop();
+    await expect(fetchFleet(settings)).rejects.toThrow('Receiver is unreachable');
+    await expect(fetchFleet(settings)).rejects.toMatchObject({ key: 'fleetSettings.error.unreachable' });
+  });
+});
+
+describe('deviceId', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('falls back to getRandomValues outside secure contexts and keeps the id', () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', { getItem: (key: string) => store.get(key) ?? null, setItem: (key: string, value: string) => store.set(key, value) });
+    vi.stubGlobal('crypto', { getRandomValues: (bytes: Uint8Array) => bytes.fill(171) });
+
+    expect(deviceId()).toBe('ab'.repeat(16));
+    expect(deviceId()).toBe('ab'.repeat(16));
+    expect(store.get('vf-device-id')).toBe('ab'.repeat(16));
+  });
+});
@@ -0,0 +1,141 @@
+import { FleetDevice, FleetSettings, FleetTelemetry, StoredSession } from '../types';
+import { en } from '../locales/en';
+import { MessageKey, MessageParams, interpolate } from './i18n';
+
+const SETTINGS_KEY = 'vf-fleet-settings';
+const DEVICE_ID_KEY = 'vf-device-id';
+// Sessions that finished while the receiver was unreachable, sent on the next successful push
+const PENDING_KEY = 'vf-fleet-pending';
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export const DEFAULT_FLEET_SETTINGS: FleetSettings = {
+  enabled: false,
+  endpoint: '',
+  deviceName: '',
+  token: '',
+};
+
+/** Carries a message key so the UI can translate it; the message itself is English for logs. */
+export class FleetSyncError extends Error {
+  constructor(readonly key: MessageKey, readonly params: MessageParams = {}) {
+    super(interpolate(en[key], params));
+    this.name = 'FleetSyncError';
+  }
+}
+
+export function loadFleetSettings(): FleetSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_FLEET_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FLEET_SETTINGS;
+  } catch {
+    return DEFAULT_FLEET_SETTINGS;
+  }
+}
+
+export function saveFleetSettings(settings: FleetSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** Returns the message key of a problem with the endpoint, or null if it is usable. */
+export function validateEndpoint(endpoint: string): MessageKey | null {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'fleetSettings.error.protocol';
+  } catch {
+    return 'fleetSettings.error.url';
+  }
+}
+
+// randomUUID only exists in secure contexts, and the app is often opened over plain http on the LAN
+const randomId = () => (typeof crypto.randomUUID === 'function'
+  ? crypto.randomUUID()
+  : Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join(''));
+
+/** Random id identifying this browser to the receiver, created on first use. */
+export function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = randomId();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+export function loadPendingSessions(): number[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PENDING_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(Number.isFinite) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePendingSessions(ids: number[]) {
+  if (ids.length === 0) localStorage.removeItem(PENDING_KEY);
+  else localStorage.setItem(PENDING_KEY, JSON.stringify([...new Set(ids)]));
+}
+
+const apiUrl = (settings: FleetSettings, path: string) => `${settings.endpoint.replace(/\/+$/, '')}/api/${path}`;
+
+async function request<T>(settings: FleetSettings, path: string, body?: unknown): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(apiUrl(settings, path), {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+    const payload = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw payload?.error
+        ? new FleetSyncError('fleetSettings.error.receiver', { error: payload.error })
+        : new FleetSyncError('fleetSettings.error.status', { status: res.status });
+    }
+    return payload as T;
+  } catch (error) {
+    if (error instanceof FleetSyncError) throw error;
+    throw new FleetSyncError(controller.signal.aborted ? 'fleetSettings.error.timeout' : 'fleetSettings.error.unreachable');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function pushTelemetry(settings: FleetSettings, telemetry: FleetTelemetry): Promise<void> {
+  await request(settings, 'telemetry', telemetry);
+}
+
+export async function pushSession(settings: FleetSettings, device: { deviceId: string; name: string }, session: StoredSession): Promise<void> {
+  await request(settings, 'sessions', { ...device, session });
+}
+
+export function fetchFleet(settings: FleetSettings): Promise<FleetDevice[]> {
+  return request(settings, 'devices');
+}
+
+export function fetchDeviceSessions(settings: FleetSettings, id: string): Promise<StoredSession[]> {
+  return request(settings, `devices/${encodeURIComponent(id)}/sessions`);
+}
+
+/**
+ * Streams the device list from the receiver. EventSource reconnects on its
+ * own; `onError` fires while the stream is down. Returns an unsubscribe.
+ */
+export function subscribeFleet(settings: FleetSettings, onDevices: (devices: FleetDevice[]) => void, onError: () => void): () => void {
+  const url = new URL(apiUrl(settings, 'stream'));
+  if (settings.token) url.searchParams.set('token', settings.token);
+  const source = new EventSource(url);
+  source.onmessage = e => {
+    try {
+      onDevices(JSON.parse(e.data));
+    } catch {
+      onError();
+    }
+  };
+  source.onerror = onError;
+  return () => source.close();
+}
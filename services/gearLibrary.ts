@@ -0,0 +1,40 @@
+import { GearItem, GearKind } from '../types';
+import { MessageKey } from './i18n';
+
+const GEAR_KEY = 'vf-gear';
+
+export const GEAR_KINDS: GearKind[] = ['charger', 'cable'];
+
+export function loadGear(): GearItem[] {
+  try {
+    const saved = localStorage.getItem(GEAR_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(g => validateGearItem(g) === null) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGear(items: GearItem[]) {
+  localStorage.setItem(GEAR_KEY, JSON.stringify(items));
+}
+
+/** Returns the message key of a problem with the item, or null if it is usable. */
+export function validateGearItem(item: Partial<GearItem>): MessageKey | null {
+  if (!item.kind || !GEAR_KINDS.includes(item.kind)) return 'gear.error.kind';
+  if (!item.name || !item.name.trim()) return 'gear.error.name';
+  if (item.ratedWatts !== null && item.ratedWatts !== undefined) {
+    if (!Number.isFinite(item.ratedWatts) || item.ratedWatts <= 0 || item.ratedWatts > 240) {
+      return 'gear.error.ratedWatts';
+    }
+  }
+  return null;
+}
+
+export function createGearItem(fields: Omit<GearItem, 'id'>): GearItem {
+  return { ...fields, name: fields.name.trim(), notes: fields.notes.trim(), id: `gear-${Date.now()}` };
+}
+
+export function gearName(items: GearItem[], id: string | undefined): string | null {
+  return id ? items.find(g => g.id === id)?.name ?? null : null;
+}
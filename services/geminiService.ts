@@ -1,32 +1,56 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { InsightProvider } from "../types";
+import { CHARGER_GRADES, PROTOCOL_TIERS, buildInsightPrompt, parseInsightReport } from "./insightPrompt";
 
-import { GoogleGenAI, Type } from "@google/genai";
+const GEMINI_MODEL = "gemini-3-flash-preview";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const INSIGHT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    grade: { type: Type.STRING, enum: CHARGER_GRADES },
+    protocolTier: { type: Type.STRING, enum: PROTOCOL_TIERS },
+    summary: { type: Type.STRING },
+    healthFlags: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          severity: { type: Type.STRING, enum: ["info", "warning", "critical"] },
+          message: { type: Type.STRING }
+        },
+        required: ["severity", "message"]
+      }
+    },
+    recommendations: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["grade", "protocolTier", "summary", "healthFlags", "recommendations"],
+  propertyOrdering: ["grade", "protocolTier", "summary", "healthFlags", "recommendations"]
+};
+
+let ai: GoogleGenAI | null = null;
 
-export async function getChargingInsights(
-  history: { time: string; level: number; wattage: number }[],
-  avgWattage: number,
-  maxWattage: number
-) {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Analyze this phone charging data:
-      - Average Wattage: ${avgWattage.toFixed(2)}W
-      - Max Wattage: ${maxWattage.toFixed(2)}W
-      - Timeline: ${JSON.stringify(history)}
-      
-      Provide a brief (2-sentence) insight about the charger quality and battery health. Is it fast charging efficiently?`,
+function client() {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+}
+
+export const geminiProvider: InsightProvider = {
+  id: "gemini",
+  isAvailable: () => !!process.env.API_KEY && navigator.onLine,
+  async getInsight(request) {
+    const response = await client().models.generateContent({
+      model: GEMINI_MODEL,
+      contents: buildInsightPrompt(request),
       config: {
         temperature: 0.7,
         topK: 40,
         topP: 0.95,
+        responseMimeType: "application/json",
+        responseSchema: INSIGHT_SCHEMA,
       }
     });
 
-    return response.text;
-  } catch (error) {
-    console.error("Gemini Insight Error:", error);
-    return "Unable to generate AI insights at this moment.";
+    if (!response.text) throw new Error("Gemini returned an empty response");
+    return parseInsightReport(response.text);
   }
-}
+};
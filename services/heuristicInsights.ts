@@ -0,0 +1,83 @@
+import { ChargerGrade, InsightFlag, InsightProvider, InsightReport, InsightRequest } from "../types";
+import { inferProtocolTier } from "./chargeCurve";
+import { MessageKey, createI18n } from "./i18n";
+import { defaultPreferences } from "./preferences";
+
+interface GradeBand {
+  grade: ChargerGrade;
+  minAvgWattage: number;
+}
+
+// Ordered best first; the first band whose floor the session clears wins
+const GRADE_BANDS: GradeBand[] = [
+  { grade: 'A', minAvgWattage: 25 },
+  { grade: 'B', minAvgWattage: 15 },
+  { grade: 'C', minAvgWattage: 9 },
+  { grade: 'D', minAvgWattage: 4.5 },
+  { grade: 'F', minAvgWattage: 0 },
+];
+
+/** Coefficient of variation of the wattage samples; 0 is perfectly steady. */
+function wattageVariation(request: InsightRequest): number {
+  const watts = request.timeline.map(s => s.wattage).filter(w => w > 0);
+  if (watts.length < 2) return 0;
+  const mean = watts.reduce((a, b) => a + b, 0) / watts.length;
+  const variance = watts.reduce((a, w) => a + (w - mean) ** 2, 0) / watts.length;
+  return mean > 0 ? Math.sqrt(variance) / mean : 0;
+}
+
+/**
+ * Grades the charger from the session statistics alone, so an assessment is
+ * available without a network connection or API key. Deterministic: the same
+ * session always gets the same grade.
+ */
+export function gradeCharger(request: InsightRequest): { grade: ChargerGrade; verdict: string; variation: number } {
+  const { avgWattage } = request.stats;
+  const band = GRADE_BANDS.find(b => avgWattage >= b.minAvgWattage) ?? GRADE_BANDS[GRADE_BANDS.length - 1];
+  const { t } = createI18n(defaultPreferences(request.locale));
+  return { grade: band.grade, verdict: t(`offline.verdict.${band.grade}`), variation: wattageVariation(request) };
+}
+
+export function analyzeSessionOffline(request: InsightRequest): InsightReport {
+  const { stats } = request;
+  const { t, number } = createI18n(defaultPreferences(request.locale));
+  const { grade, verdict, variation } = gradeCharger(request);
+  const peakRatio = stats.avgWattage > 0 ? stats.maxWattage / stats.avgWattage : 0;
+  const healthFlags: InsightFlag[] = [];
+  const recommendations: string[] = [];
+
+  let stability: MessageKey;
+  if (request.timeline.length < 3) {
+    stability = 'offline.stability.fewSamples';
+    healthFlags.push({ severity: 'info', message: t('offline.flag.short') });
+    recommendations.push(t('offline.rec.longer'));
+  } else if (variation > 0.5) {
+    stability = 'offline.stability.swings';
+    healthFlags.push({ severity: 'warning', message: t('offline.flag.unstable') });
+    recommendations.push(t('offline.rec.cable'));
+  } else if (peakRatio > 1.8) {
+    stability = 'offline.stability.tapered';
+  } else {
+    stability = 'offline.stability.steady';
+  }
+
+  if (grade === 'D' || grade === 'F') {
+    healthFlags.push({ severity: grade === 'F' ? 'critical' : 'warning', message: t('offline.flag.slow', { watts: number(stats.avgWattage, 1) }) });
+    recommendations.push(t('offline.rec.charger'));
+  }
+  if (recommendations.length === 0) recommendations.push(t('offline.rec.none'));
+
+  return {
+    grade,
+    protocolTier: inferProtocolTier(stats.maxWattage),
+    summary: t('offline.summary', { average: number(stats.avgWattage, 1), peak: number(stats.maxWattage, 1), verdict, stability: t(stability) }),
+    healthFlags,
+    recommendations,
+  };
+}
+
+export const offlineProvider: InsightProvider = {
+  id: 'offline',
+  isAvailable: () => true,
+  getInsight: async request => analyzeSessionOffline(request)
+};
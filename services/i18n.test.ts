@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Preferences } from '../types';
+import { en } from '../locales/en';
+import { de } from '../locales/de';
+import { createI18n } from './i18n';
+import { defaultPreferences, detectLocale } from './preferences';
+import { PRESET_PROFILES } from './deviceProfiles';
+
+const AFTERNOON = new Date(2026, 0, 7, 15, 4, 9).getTime();
+const prefs = (overrides: Partial<Preferences> = {}): Preferences => ({
+  locale: 'en', hourCycle: '24h', capacityUnit: 'mAh', precision: 1, ...overrides
+});
+
+describe('i18n', () => {
+  it('interpolates messages and keeps unknown placeholders', () => {
+    const { t } = createI18n(prefs());
+    expect(t('menu.alerts', { count: 3 })).toBe('Alerts (3)');
+    expect(t('menu.drainMonitor')).toBe('Drain Monitor: {state}');
+    expect(createI18n(prefs({ locale: 'de' })).t('menu.alerts', { count: 3 })).toBe('Warnungen (3)');
+  });
+
+  it('translates every key and placeholder', () => {
+    const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+    for (const key of Object.keys(en) as (keyof typeof en)[]) {
+      expect(de[key], key).toBeTruthy();
+      expect(placeholders(de[key]), key).toEqual(placeholders(en[key]));
+    }
+  });
+
+  it('picks plural forms', () => {
+    const i18n = createI18n(prefs());
+    expect(i18n.plural('notice.imported', 1)).toBe('Imported 1 session');
+    expect(i18n.plural('notice.imported', 4)).toBe('Imported 4 sessions');
+  });
+
+  it('formats numbers for the locale and precision', () => {
+    expect(createI18n(prefs()).watts(18.46)).toBe('18.5');
+    expect(createI18n(prefs({ precision: 2 })).amps(2.05)).toBe('2.050');
+    const german = createI18n(prefs({ locale: 'de', precision: 2 }));
+    expect(german.watts(18.456)).toBe('18,46');
+    expect(german.number(4500, 0)).toBe('4.500');
+  });
+
+  it('shows charge in mAh or Wh', () => {
+    const profile = { ...PRESET_PROFILES[0], capacityMah: 4000, nominalVoltage: 3.85 };
+    expect(createI18n(prefs()).charge(0.5, profile)).toBe('2,000 mAh');
+    expect(createI18n(prefs({ capacityUnit: 'Wh' })).charge(0.5, profile)).toBe('7.7 Wh');
+    expect(createI18n(prefs()).capacity(1234.6, 3.85)).toBe('1,235 mAh');
+    expect(createI18n(prefs({ capacityUnit: 'Wh', locale: 'de' })).capacity(1000, 3.85)).toBe('3,9 Wh');
+  });
+
+  it('follows the 12/24-hour preference', () => {
+    expect(createI18n(prefs()).time(AFTERNOON)).toBe('15:04');
+    expect(createI18n(prefs({ hourCycle: '12h' })).time(AFTERNOON)).toMatch(/^03:04\sPM$/);
+    expect(createI18n(prefs({ locale: 'de' })).time(AFTERNOON, true)).toBe('15:04:09');
+  });
+
+  it('formats durations to the minute', () => {
+    expect(createI18n(prefs()).duration(42 * 60000 + 20000)).toBe('42m');
+    expect(createI18n(prefs()).duration(125 * 60000)).toBe('2h 5m');
+    expect(createI18n(prefs({ locale: 'de' })).duration(125 * 60000)).toBe('2 Std. 5 Min.');
+  });
+
+  it('detects the locale from the browser languages', () => {
+    expect(detectLocale(['de-AT', 'en'])).toBe('de');
+    expect(detectLocale(['fr-FR', 'en-GB'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+    expect(defaultPreferences('de').hourCycle).toBe('24h');
+    expect(defaultPreferences('en').hourCycle).toBe('12h');
+  });
+});
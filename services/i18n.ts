@@ -0,0 +1,89 @@
+import { DeviceProfile, Locale, Preferences } from '../types';
+import { MessageKey, en } from '../locales/en';
+import { de } from '../locales/de';
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, de };
+
+// Each language is named in itself so the picker stays readable whatever the current locale
+export const LOCALE_LABELS: Record<Locale, string> = { en: 'English', de: 'Deutsch' };
+
+/** Translation and formatting bound to one set of preferences. */
+export interface I18n {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Picks the `.one` or `.other` form of a message for `count`
+  plural: (key: 'notice.imported' | 'common.sessions', count: number, params?: MessageParams) => string;
+  number: (value: number, digits: number) => string;
+  percent: (fraction: number) => string;
+  watts: (value: number) => string;
+  volts: (value: number) => string;
+  amps: (value: number) => string;
+  energy: (value: number) => string;
+  // A charge given in mAh, shown in the preferred unit, e.g. "2,450 mAh" or "9.4 Wh"
+  capacity: (mah: number, nominalVoltage: number) => string;
+  // Charge held at `level` of the profile's capacity, in the preferred unit
+  charge: (level: number, profile: DeviceProfile) => string;
+  time: (time: number, withSeconds?: boolean) => string;
+  date: (time: number) => string;
+  shortDate: (time: number) => string;
+  dateTime: (time: number) => string;
+  // Rounded to the minute, e.g. "1h 5m"
+  duration: (ms: number) => string;
+}
+
+export const interpolate = (message: string, params: MessageParams = {}) =>
+  message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+export function createI18n(prefs: Preferences): I18n {
+  const { locale, precision } = prefs;
+  const catalog = CATALOGS[locale];
+  const hour12 = prefs.hourCycle === '12h';
+  const numberFormats = new Map<number, Intl.NumberFormat>();
+  const number = (value: number, digits: number) => {
+    let format = numberFormats.get(digits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+      numberFormats.set(digits, format);
+    }
+    return format.format(value);
+  };
+  const percentFormat = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 });
+  const timeFormat = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', hour12 });
+  const secondsFormat = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12 });
+  const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'short' });
+  const shortDateFormat = new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric' });
+  const pluralRules = new Intl.PluralRules(locale);
+
+  const t = (key: MessageKey, params?: MessageParams) => interpolate(catalog[key] ?? en[key], params);
+  const capacity = (mah: number, nominalVoltage: number) => (prefs.capacityUnit === 'Wh'
+    ? `${number((mah * nominalVoltage) / 1000, precision)} Wh`
+    : `${number(mah, 0)} mAh`);
+
+  return {
+    locale,
+    t,
+    plural: (key, count, params) => t(`${key}.${pluralRules.select(count) === 'one' ? 'one' : 'other'}`, { count, ...params }),
+    number,
+    percent: fraction => percentFormat.format(fraction),
+    watts: value => number(value, precision),
+    volts: value => number(value, precision),
+    amps: value => number(value, precision + 1),
+    energy: value => number(value, precision + 1),
+    capacity,
+    charge: (level, profile) => capacity(level * profile.capacityMah, profile.nominalVoltage),
+    time: (time, withSeconds = false) => (withSeconds ? secondsFormat : timeFormat).format(time),
+    date: time => dateFormat.format(time),
+    shortDate: time => shortDateFormat.format(time),
+    dateTime: time => `${dateFormat.format(time)} ${timeFormat.format(time)}`,
+    duration: ms => {
+      const totalMinutes = Math.round(ms / 60000);
+      const hours = Math.floor(totalMinutes / 60);
+      return hours > 0
+        ? t('common.hoursMinutes', { hours: number(hours, 0), minutes: totalMinutes % 60 })
+        : t('common.minutes', { minutes: totalMinutes });
+    },
+  };
+}
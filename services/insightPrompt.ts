@@ -0,0 +1,68 @@
+import { ChargerGrade, InsightFlag, InsightReport, InsightRequest, Locale, ProtocolTier } from '../types';
+
+export const CHARGER_GRADES: ChargerGrade[] = ['A', 'B', 'C', 'D', 'F'];
+
+export const PROTOCOL_TIERS: ProtocolTier[] = ['usb-standard', 'usb-bc', 'quick-charge', 'usb-pd', 'pd-pps', 'unknown'];
+
+export const FLAG_SEVERITIES: InsightFlag['severity'][] = ['info', 'warning', 'critical'];
+
+const MAX_LIST_ITEMS = 5;
+
+// Named in English, the language of the rest of the prompt
+const PROMPT_LANGUAGES: Record<Locale, string> = { en: 'English', de: 'German' };
+
+export function buildInsightPrompt({ stats, timeline, locale }: InsightRequest): string {
+  const volts = timeline.map(s => s.voltage).filter(v => v > 0);
+  const amps = timeline.map(s => s.amperage).filter(a => a > 0);
+  const range = (values: number[], unit: string) =>
+    values.length ? `${Math.min(...values).toFixed(2)}${unit} – ${Math.max(...values).toFixed(2)}${unit}` : 'n/a';
+
+  return `Analyze this phone charging data:
+      - Average Wattage: ${stats.avgWattage.toFixed(2)}W
+      - Max Wattage: ${stats.maxWattage.toFixed(2)}W
+      - Voltage Range: ${range(volts, 'V')}
+      - Current Range: ${range(amps, 'A')}
+      - Energy Delivered: ${stats.totalEnergyWh.toFixed(2)}Wh
+      - Timeline: ${JSON.stringify(timeline)}
+
+      Judge the charger quality, the charging protocol the voltage and current suggest, and any battery health concerns.
+      Respond with JSON only, using exactly these fields:
+      - grade: one of ${CHARGER_GRADES.join(', ')}
+      - protocolTier: one of ${PROTOCOL_TIERS.join(', ')}
+      - summary: one or two sentences
+      - healthFlags: array of { severity: ${FLAG_SEVERITIES.join(' | ')}, message }
+      - recommendations: array of short actionable strings
+      Write the summary, flag messages and recommendations in ${PROMPT_LANGUAGES[locale]}.`;
+}
+
+const oneOf = <T extends string>(value: unknown, options: T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+/**
+ * Parses and normalizes a model's JSON answer. Models occasionally wrap the
+ * object in a code fence or drift from the enums, so both are tolerated.
+ */
+export function parseInsightReport(text: string): InsightReport {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const raw = JSON.parse(json);
+  if (!raw || typeof raw !== 'object' || typeof raw.summary !== 'string' || !raw.summary.trim()) {
+    throw new Error('Insight response is missing a summary');
+  }
+
+  const flags: unknown[] = Array.isArray(raw.healthFlags) ? raw.healthFlags : [];
+  const recommendations: unknown[] = Array.isArray(raw.recommendations) ? raw.recommendations : [];
+
+  return {
+    grade: oneOf(typeof raw.grade === 'string' ? raw.grade.toUpperCase() : raw.grade, CHARGER_GRADES, 'C'),
+    protocolTier: oneOf(raw.protocolTier, PROTOCOL_TIERS, 'unknown'),
+    summary: raw.summary.trim(),
+    healthFlags: flags
+      .filter((f): f is { severity?: unknown; message: string } => typeof f === 'object' && f !== null && 'message' in f && typeof f.message === 'string')
+      .slice(0, MAX_LIST_ITEMS)
+      .map(f => ({ severity: oneOf(f.severity, FLAG_SEVERITIES, 'info'), message: f.message.trim() })),
+    recommendations: recommendations
+      .filter((r): r is string => typeof r === 'string' && r.trim() !== '')
+      .slice(0, MAX_LIST_ITEMS)
+      .map(r => r.trim()),
+  };
+}
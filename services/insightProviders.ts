@@ -0,0 +1,48 @@
+import { InsightProvider, InsightProviderId, InsightRequest, InsightSettings, SessionInsight } from '../types';
+import { geminiProvider } from './geminiService';
+import { openAiCompatibleProvider } from './openAiCompatibleService';
+import { offlineProvider } from './heuristicInsights';
+
+const SETTINGS_KEY = 'vf-insight-settings';
+
+export const INSIGHT_PROVIDERS: Record<InsightProviderId, InsightProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'offline': offlineProvider,
+};
+
+export const DEFAULT_INSIGHT_SETTINGS: InsightSettings = {
+  provider: 'gemini',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiModel: '',
+  openAiApiKey: '',
+};
+
+export function loadInsightSettings(): InsightSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const parsed = saved ? { ...DEFAULT_INSIGHT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_INSIGHT_SETTINGS;
+    return parsed.provider in INSIGHT_PROVIDERS ? parsed : DEFAULT_INSIGHT_SETTINGS;
+  } catch {
+    return DEFAULT_INSIGHT_SETTINGS;
+  }
+}
+
+export function saveInsightSettings(settings: InsightSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/** Runs the selected provider, falling back to the offline analyzer when it is unavailable or fails. */
+export async function generateInsight(request: InsightRequest, settings: InsightSettings, now = Date.now()): Promise<SessionInsight> {
+  const provider = INSIGHT_PROVIDERS[settings.provider];
+  if (provider.id !== 'offline' && provider.isAvailable(settings)) {
+    try {
+      const report = await provider.getInsight(request, settings);
+      return { ...report, provider: provider.id, generatedAt: now, fellBack: false };
+    } catch (error) {
+      console.error(`Insight provider ${provider.id} error:`, error);
+    }
+  }
+  const report = await offlineProvider.getInsight(request, settings);
+  return { ...report, provider: 'offline', generatedAt: now, fellBack: provider.id !== 'offline' };
+}
@@ -0,0 +1,32 @@
+export function notificationsSupported(): boolean {
+  return 'Notification' in window;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/**
+ * Shows a system notification through the service worker registered in
+ * index.html, which is the only way mobile browsers allow it. Falls back to
+ * the page-level Notification constructor on desktop if no worker is active.
+ */
+export async function showSystemNotification(title: string, body: string, tag?: string) {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const options: NotificationOptions = { body, tag, icon: 'https://cdn-icons-png.flaticon.com/512/3103/3103446.png' };
+
+  try {
+    if ('serviceWorker' in navigator) {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (registration) {
+        await registration.showNotification(title, options);
+        return;
+      }
+    }
+    new Notification(title, options);
+  } catch (error) {
+    console.error('Notification error:', error);
+  }
+}
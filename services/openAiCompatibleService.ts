@@ -0,0 +1,44 @@
+import { InsightProvider } from "../types";
+import { buildInsightPrompt, parseInsightReport } from "./insightPrompt";
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, such as a
+ * local llama.cpp, Ollama or vLLM instance on the bench network.
+ */
+export const openAiCompatibleProvider: InsightProvider = {
+  id: "openai-compatible",
+  isAvailable: settings => settings.openAiBaseUrl.trim() !== "" && settings.openAiModel.trim() !== "",
+  async getInsight(request, settings) {
+    const url = `${settings.openAiBaseUrl.trim().replace(/\/+$/, "")}/chat/completions`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.openAiModel.trim(),
+          temperature: 0.7,
+          // json_object rather than json_schema: it is the mode local servers most widely support
+          response_format: { type: "json_object" },
+          messages: [{ role: "user", content: buildInsightPrompt(request) }]
+        })
+      });
+      if (!response.ok) throw new Error(`Insight server responded ${response.status}`);
+
+      const payload = await response.json();
+      const text = payload?.choices?.[0]?.message?.content;
+      if (typeof text !== "string" || !text.trim()) throw new Error("Insight server returned no content");
+      return parseInsightReport(text);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { EstimatorContext, LevelSample, estimatePower, rejectOutliers } from './powerEstimator';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 0, 7, 12, 0).getTime();
+const CAPACITY_WH = 15;
+
+// One boundary sample per percent, the newest at `end`
+const ramp = (count: number, minutesPerPercent: number, end = NOW, startLevel = 0.4): LevelSample[] =>
+  Array.from({ length: count }, (_, i) => ({
+    time: end - (count - 1 - i) * minutesPerPercent * MINUTE,
+    level: startLevel + i * 0.01,
+    boundary: true,
+  }));
+
+const ctx = (overrides: Partial<EstimatorContext> = {}): EstimatorContext => ({
+  capacityWh: CAPACITY_WH, chargingTime: Infinity, now: NOW, ...overrides
+});
+
+describe('powerEstimator', () => {
+  it('reads a steady slope with full confidence', () => {
+    // 1% every 2 minutes is 30% an hour, 4.5 W into a 15 Wh battery
+    const estimate = estimatePower(ramp(5, 2), ctx());
+    expect(estimate.source).toBe('regression');
+    expect(estimate.watts).toBeCloseTo(4.5, 5);
+    expect(estimate.confidence).toBeCloseTo(1, 5);
+  });
+
+  it('rejects an outlier and loses confidence on noisy input', () => {
+    const samples = ramp(8, 1);
+    samples[4] = { ...samples[4], level: samples[4].level + 0.05 };
+    expect(rejectOutliers(samples, 2)).not.toContain(samples[4]);
+    const estimate = estimatePower(samples, ctx());
+    expect(estimate.watts).toBeCloseTo(9, 0);
+
+    const jittered = ramp(8, 1).map((s, i) => ({ ...s, level: s.level + (i % 2 ? 0.008 : -0.008) }));
+    const noisy = estimatePower(jittered, ctx());
+    expect(noisy.confidence).toBeGreaterThan(0);
+    expect(noisy.confidence).toBeLessThan(0.95);
+  });
+
+  it('reports no confidence with too few samples', () => {
+    expect(estimatePower([], ctx())).toEqual({ watts: 0, confidence: 0, source: 'none' });
+    expect(estimatePower(ramp(1, 2), ctx())).toEqual({ watts: 0, confidence: 0, source: 'none' });
+    // The plug-in anchor plus one boundary is capped well below full confidence
+    const anchored = estimatePower([{ time: NOW - 2 * MINUTE, level: 0.405, boundary: false }, { time: NOW, level: 0.41, boundary: true }], ctx());
+    expect(anchored.confidence).toBeLessThanOrEqual(0.3);
+  });
+
+  it('evicts samples that fall out of the window', () => {
+    // An hour of slow charging, then the last ten minutes at 1% per 2 minutes
+    const slow = ramp(6, 10, NOW - 12 * MINUTE, 0.3);
+    const fast = ramp(5, 2, NOW, 0.36);
+    const estimate = estimatePower([...slow, ...fast], ctx());
+    expect(estimate.watts).toBeCloseTo(4.5, 5);
+    expect(estimatePower(slow, ctx({ now: NOW - 12 * MINUTE })).watts).toBeCloseTo(0.9, 5);
+  });
+
+  it('blends in the browser charging time and loses confidence when they disagree', () => {
+    const samples = ramp(5, 2);
+    // 56% left at 4.5 W takes 112 minutes
+    const agreeing = estimatePower(samples, ctx({ chargingTime: 112 * 60 }));
+    expect(agreeing.source).toBe('blended');
+    expect(agreeing.watts).toBeCloseTo(4.5, 1);
+    const disagreeing = estimatePower(samples, ctx({ chargingTime: 20 * 60 }));
+    expect(disagreeing.confidence).toBeLessThan(agreeing.confidence);
+  });
+});
@@ -0,0 +1,155 @@
+export interface LevelSample {
+  time: number;
+  // Battery level as reported by BatteryManager (0..1)
+  level: number;
+  // True when the sample was taken on a levelchange event, i.e. exactly at a
+  // 1% boundary. The sample taken at plug-in usually sits somewhere between two.
+  boundary: boolean;
+}
+
+export interface PowerEstimate {
+  watts: number;
+  // 0..1, how much the reading can be trusted
+  confidence: number;
+  source: 'none' | 'regression' | 'browser-time' | 'blended';
+}
+
+export interface EstimatorOptions {
+  windowMs: number;
+  maxWatts: number;
+  // Boundary samples needed before the regression is trusted fully
+  fullConfidenceSamples: number;
+  outlierSigma: number;
+}
+
+export interface EstimatorContext {
+  capacityWh: number;
+  // BatteryManager.chargingTime in seconds; Infinity or 0 when unknown
+  chargingTime: number;
+  // BatteryManager.dischargingTime in seconds, used when estimating drain
+  dischargingTime?: number;
+  // Charging estimates inflow, discharging estimates draw; both are reported as positive watts
+  mode?: 'charging' | 'discharging';
+  now: number;
+}
+
+export const DEFAULT_ESTIMATOR_OPTIONS: EstimatorOptions = {
+  windowMs: 10 * 60 * 1000,
+  maxWatts: 120,
+  fullConfidenceSamples: 5,
+  outlierSigma: 2,
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+// Browsers round chargingTime/dischargingTime heavily, so they never count for more than this
+const BROWSER_TIME_CONFIDENCE = 0.5;
+// Cap while only the plug-in anchor and a single boundary are known
+const ANCHOR_ONLY_CONFIDENCE = 0.3;
+const RESIDUAL_EPSILON = 1e-9;
+
+const NO_ESTIMATE: PowerEstimate = { watts: 0, confidence: 0, source: 'none' };
+
+interface LinearFit {
+  // Level fraction per hour
+  slope: number;
+  r2: number;
+  residuals: number[];
+}
+
+/** Least-squares fit of level against time. Returns null if the samples span no time. */
+export function fitLevelRate(samples: LevelSample[]): LinearFit | null {
+  if (samples.length < 2) return null;
+  const t0 = samples[0].time;
+  const xs = samples.map(s => (s.time - t0) / MS_PER_HOUR);
+  const ys = samples.map(s => s.level);
+  const n = samples.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residuals = xs.map((x, i) => ys[i] - (intercept + slope * x));
+  const ssRes = residuals.reduce((a, r) => a + r * r, 0);
+  return { slope, r2: syy === 0 ? 1 : Math.max(0, 1 - ssRes / syy), residuals };
+}
+
+/** Drops samples whose residual exceeds `sigma` standard deviations, keeping at least three. */
+export function rejectOutliers(samples: LevelSample[], sigma: number): LevelSample[] {
+  if (samples.length < 4) return samples;
+  const fit = fitLevelRate(samples);
+  if (!fit) return samples;
+  const std = Math.sqrt(fit.residuals.reduce((a, r) => a + r * r, 0) / fit.residuals.length);
+  // Far below the 1% level resolution: a straight line whose residuals are only rounding noise
+  if (std < RESIDUAL_EPSILON) return samples;
+  const kept = samples.filter((_, i) => Math.abs(fit.residuals[i]) <= sigma * std);
+  return kept.length >= 3 ? kept : samples;
+}
+
+function regressionEstimate(samples: LevelSample[], ctx: EstimatorContext, opts: EstimatorOptions): PowerEstimate {
+  const recent = samples.filter(s => s.time >= ctx.now - opts.windowMs);
+  // Keep at least the two most recent samples so slow charging still yields a reading
+  const windowed = recent.length >= 2 ? recent : samples.slice(-2);
+  const boundaries = windowed.filter(s => s.boundary);
+  const anchorOnly = boundaries.length < 2;
+  const fitted = rejectOutliers(anchorOnly ? windowed : boundaries, opts.outlierSigma);
+  const fit = fitLevelRate(fitted);
+  if (!fit) return NO_ESTIMATE;
+
+  const direction = ctx.mode === 'discharging' ? -1 : 1;
+  const watts = Math.min(Math.max(direction * fit.slope * ctx.capacityWh, 0), opts.maxWatts);
+  const sampleFactor = Math.min((fitted.length - 1) / (opts.fullConfidenceSamples - 1), 1);
+  const confidence = anchorOnly
+    ? Math.min(sampleFactor * fit.r2, ANCHOR_ONLY_CONFIDENCE)
+    : sampleFactor * fit.r2;
+  return { watts, confidence, source: 'regression' };
+}
+
+function browserTimeEstimate(samples: LevelSample[], ctx: EstimatorContext, opts: EstimatorOptions): PowerEstimate {
+  const latest = samples[samples.length - 1];
+  const discharging = ctx.mode === 'discharging';
+  const seconds = discharging ? ctx.dischargingTime ?? Infinity : ctx.chargingTime;
+  if (!latest || !Number.isFinite(seconds) || seconds <= 0) return NO_ESTIMATE;
+
+  // chargingTime covers the CV taper too, so when charging this underestimates the bulk phase rate
+  const remainingWh = (discharging ? latest.level : 1 - latest.level) * ctx.capacityWh;
+  if (remainingWh <= 0) return NO_ESTIMATE;
+  const watts = Math.min(remainingWh / (seconds / 3600), opts.maxWatts);
+  return { watts, confidence: BROWSER_TIME_CONFIDENCE, source: 'browser-time' };
+}
+
+/**
+ * Estimates charging (or drain) power from recent level samples, using a
+ * regression over a sliding window with outlier rejection, cross-checked
+ * against the browser's chargingTime/dischargingTime. Confidence drops when
+ * the two signals disagree.
+ */
+export function estimatePower(
+  samples: LevelSample[],
+  ctx: EstimatorContext,
+  opts: EstimatorOptions = DEFAULT_ESTIMATOR_OPTIONS
+): PowerEstimate {
+  const regression = regressionEstimate(samples, ctx, opts);
+  const fromBrowser = browserTimeEstimate(samples, ctx, opts);
+
+  if (regression.source === 'none') return fromBrowser;
+  if (fromBrowser.source === 'none') return regression;
+
+  const total = regression.confidence + fromBrowser.confidence;
+  const watts = total > 0
+    ? (regression.watts * regression.confidence + fromBrowser.watts * fromBrowser.confidence) / total
+    : regression.watts;
+  const larger = Math.max(regression.watts, fromBrowser.watts);
+  const agreement = larger > 0 ? 1 - Math.abs(regression.watts - fromBrowser.watts) / larger : 1;
+  const confidence = Math.max(regression.confidence, fromBrowser.confidence) * (0.5 + 0.5 * agreement);
+  return { watts, confidence, source: 'blended' };
+}
@@ -0,0 +1,40 @@
+import { Locale, Preferences } from '../types';
+
+const PREFERENCES_KEY = 'vf-preferences';
+
+export const PRECISION_OPTIONS = [0, 1, 2, 3];
+
+/** Picks a supported locale from the browser's language list, falling back to English. */
+export function detectLocale(languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages : []): Locale {
+  for (const language of languages) {
+    if (language.toLowerCase().startsWith('de')) return 'de';
+    if (language.toLowerCase().startsWith('en')) return 'en';
+  }
+  return 'en';
+}
+
+/** 12-hour time where the locale's own convention uses it. */
+function detectHourCycle(locale: Locale): Preferences['hourCycle'] {
+  const { hourCycle } = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions();
+  return hourCycle === 'h11' || hourCycle === 'h12' ? '12h' : '24h';
+}
+
+export function defaultPreferences(locale: Locale = detectLocale()): Preferences {
+  return { locale, hourCycle: detectHourCycle(locale), capacityUnit: 'mAh', precision: 1 };
+}
+
+export function loadPreferences(): Preferences {
+  try {
+    const saved = localStorage.getItem(PREFERENCES_KEY);
+    if (!saved) return defaultPreferences();
+    const parsed = JSON.parse(saved);
+    const prefs = { ...defaultPreferences(parsed.locale === 'de' || parsed.locale === 'en' ? parsed.locale : undefined), ...parsed };
+    return PRECISION_OPTIONS.includes(prefs.precision) ? prefs : { ...prefs, precision: 1 };
+  } catch {
+    return defaultPreferences();
+  }
+}
+
+export function savePreferences(prefs: Preferences) {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(prefs));
+}
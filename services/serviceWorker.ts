@@ -0,0 +1,45 @@
+// Long-running monitor tabs rarely navigate, so look for new builds periodically too
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker in production builds and reports a worker that
+ * has installed behind the current one. Returns an unsubscribe function.
+ */
+export function registerServiceWorker(onUpdateReady: (worker: ServiceWorker) => void): () => void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return () => {};
+  let active = true;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const notify = (worker: ServiceWorker | null) => {
+    // Without a controller this is the first install, not an update
+    if (worker && active && navigator.serviceWorker.controller) onUpdateReady(worker);
+  };
+
+  navigator.serviceWorker.register('sw.js').then(registration => {
+    notify(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed') notify(installing);
+      });
+    });
+    if (active) timer = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+  }).catch(err => console.log('SW registration failed:', err));
+
+  return () => {
+    active = false;
+    if (timer) clearInterval(timer);
+  };
+}
+
+let reloading = false;
+
+/** Activates the waiting worker and reloads once it controls the page. */
+export function applyServiceWorkerUpdate(worker: ServiceWorker) {
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+  worker.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ChargingLog, SessionStats, StoredSession } from '../types';
+import {
+  AnalyticsFilter, dailyAggregates, filterSessions, lastDaysRange, levelDistribution, summarize,
+  timeOfDayHeatmap, wattageHistogram
+} from './sessionAnalytics';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MONDAY = new Date(2026, 0, 5, 0, 0).getTime();
+
+const session = (start: number, overrides: Partial<SessionStats> = {}, logs: ChargingLog[] = []): StoredSession => ({
+  id: start,
+  stats: {
+    mode: 'charging', startTime: start, endTime: start + 60 * MINUTE, startLevel: 0.2, endLevel: 0.8,
+    avgWattage: 10, maxWattage: 12, avgVoltage: 9, maxAmperage: 1.3, totalEnergyWh: 12, ...overrides
+  },
+  logs
+});
+
+const log = (time: number, wattage: number, extra: Partial<ChargingLog> = {}): ChargingLog => ({
+  timestamp: time, level: 50, wattage, voltage: 9, amperage: 1, status: 'charging', ...extra
+});
+
+describe('sessionAnalytics', () => {
+  const sessions = [
+    session(MONDAY + 8 * 60 * MINUTE, { chargerId: 'gear-a' }),
+    session(MONDAY + 22 * 60 * MINUTE, { startLevel: 0.05, endLevel: 1, totalEnergyWh: 18 }),
+    session(MONDAY + DAY + 8 * 60 * MINUTE, { mode: 'discharging', startLevel: 0.9, endLevel: 0.4 }),
+    session(MONDAY + 2 * DAY + 8 * 60 * MINUTE, { endTime: null }),
+    session(MONDAY + 9 * DAY, {}),
+  ];
+  const filter: AnalyticsFilter = { from: MONDAY, to: MONDAY + 6 * DAY, mode: 'charging', chargerId: null, profileId: null };
+
+  it('filters by date range, mode and charger, skipping unfinished sessions', () => {
+    expect(filterSessions(sessions, filter).map(s => s.id)).toEqual([sessions[0].id, sessions[1].id]);
+    expect(filterSessions(sessions, { ...filter, chargerId: 'gear-a' })).toHaveLength(1);
+    expect(filterSessions(sessions, { ...filter, mode: 'discharging' })).toHaveLength(1);
+    // `to` covers its whole day
+    expect(filterSessions(sessions, { ...filter, to: MONDAY })).toHaveLength(2);
+  });
+
+  it('summarizes energy, duration and net level', () => {
+    const summary = summarize(filterSessions(sessions, filter));
+    expect(summary).toMatchObject({ sessions: 2, energyWh: 30, avgDurationMs: 60 * MINUTE });
+    expect(summary.avgNetLevel).toBeCloseTo(0.775);
+    expect(summarize([]).avgDurationMs).toBeNull();
+  });
+
+  it('fills every day of the range', () => {
+    const days = dailyAggregates(filterSessions(sessions, filter), filter.from, filter.to);
+    expect(days).toHaveLength(7);
+    expect(days[0]).toEqual({ day: MONDAY, sessions: 2, energyWh: 30 });
+    expect(days.slice(1).every(d => d.sessions === 0)).toBe(true);
+  });
+
+  it('buckets start and end levels', () => {
+    const buckets = levelDistribution(filterSessions(sessions, filter));
+    expect(buckets).toHaveLength(10);
+    expect(buckets[0].start).toBe(1);
+    expect(buckets[2].start).toBe(1);
+    expect(buckets[8].end).toBe(1);
+    // 100% lands in the top bucket
+    expect(buckets[9].end).toBe(1);
+  });
+
+  it('builds a time-weighted wattage histogram without interpolated samples', () => {
+    const start = MONDAY;
+    const histogram = wattageHistogram([session(start, {}, [
+      log(start + 10 * MINUTE, 5),
+      log(start + 15 * MINUTE, 9),
+      log(start + 45 * MINUTE, 40, { interpolated: true }),
+    ])]);
+    expect(histogram.map(b => b.watts)).toEqual([0, 2, 4, 6, 8]);
+    expect(histogram[2].minutes).toBe(10);
+    expect(histogram[4].minutes).toBe(5);
+  });
+
+  it('counts session starts by weekday and hour', () => {
+    const cells = timeOfDayHeatmap(sessions);
+    expect(cells).toContainEqual({ weekday: 0, hour: 8, sessions: 1 });
+    expect(cells).toContainEqual({ weekday: 1, hour: 8, sessions: 1 });
+    expect(cells).toContainEqual({ weekday: 2, hour: 0, sessions: 1 });
+  });
+
+  it('ranges end today', () => {
+    const range = lastDaysRange(7, MONDAY + 6 * DAY + 15 * 60 * MINUTE);
+    expect(range).toEqual({ from: MONDAY, to: MONDAY + 6 * DAY });
+  });
+});
@@ -0,0 +1,153 @@
+import { SessionMode, StoredSession } from '../types';
+import { sampleWeights, sessionMode } from './sessionStatistics';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const LEVEL_BUCKET = 10;
+export const WATTAGE_BIN = 2;
+
+export interface AnalyticsFilter {
+  // Local midnights; `to` is inclusive of that whole day
+  from: number;
+  to: number;
+  mode: SessionMode;
+  chargerId: string | null;
+  profileId: string | null;
+}
+
+export interface DailyAggregate {
+  day: number;
+  sessions: number;
+  energyWh: number;
+}
+
+export interface AnalyticsSummary {
+  sessions: number;
+  energyWh: number;
+  avgDurationMs: number | null;
+  avgNetLevel: number | null;
+}
+
+export interface LevelBucket {
+  label: string;
+  start: number;
+  end: number;
+}
+
+export interface WattageBin {
+  watts: number;
+  // Recorded time spent in this bin
+  minutes: number;
+}
+
+export interface HeatmapCell {
+  // 0 = Monday
+  weekday: number;
+  hour: number;
+  sessions: number;
+}
+
+export function startOfDay(time: number): number {
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+/** Midnight `days - 1` days before today through today. */
+export function lastDaysRange(days: number, now: number): { from: number; to: number } {
+  const to = startOfDay(now);
+  const from = new Date(to);
+  from.setDate(from.getDate() - (days - 1));
+  return { from: from.getTime(), to };
+}
+
+export function filterSessions(sessions: StoredSession[], filter: AnalyticsFilter): StoredSession[] {
+  const end = new Date(filter.to);
+  end.setDate(end.getDate() + 1);
+  return sessions.filter(({ stats }) =>
+    stats.endTime !== null &&
+    stats.startTime >= filter.from &&
+    stats.startTime < end.getTime() &&
+    sessionMode(stats) === filter.mode &&
+    (filter.chargerId === null || stats.chargerId === filter.chargerId) &&
+    (filter.profileId === null || stats.profile?.id === filter.profileId)
+  );
+}
+
+export function summarize(sessions: StoredSession[]): AnalyticsSummary {
+  const durations = sessions.map(({ stats }) => stats.endTime! - stats.startTime);
+  const nets = sessions.map(({ stats }) => Math.abs((stats.endLevel ?? stats.startLevel) - stats.startLevel));
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+  return {
+    sessions: sessions.length,
+    energyWh: sessions.reduce((sum, { stats }) => sum + stats.totalEnergyWh, 0),
+    avgDurationMs: mean(durations),
+    avgNetLevel: mean(nets),
+  };
+}
+
+/** One row per calendar day in the range, including days without sessions. */
+export function dailyAggregates(sessions: StoredSession[], from: number, to: number): DailyAggregate[] {
+  const days = new Map<number, DailyAggregate>();
+  for (let day = new Date(from); day.getTime() <= to; day.setDate(day.getDate() + 1)) {
+    days.set(day.getTime(), { day: day.getTime(), sessions: 0, energyWh: 0 });
+  }
+  for (const { stats } of sessions) {
+    const row = days.get(startOfDay(stats.startTime));
+    if (!row) continue;
+    row.sessions += 1;
+    row.energyWh += stats.totalEnergyWh;
+  }
+  return [...days.values()];
+}
+
+/** Start and end levels counted in 10% buckets. */
+export function levelDistribution(sessions: StoredSession[]): LevelBucket[] {
+  const buckets = Array.from({ length: 100 / LEVEL_BUCKET }, (_, i) => ({
+    label: `${i * LEVEL_BUCKET}–${(i + 1) * LEVEL_BUCKET}`,
+    start: 0,
+    end: 0,
+  }));
+  const bucketOf = (level: number) => Math.min(Math.floor(level * 100 / LEVEL_BUCKET), buckets.length - 1);
+  for (const { stats } of sessions) {
+    buckets[bucketOf(stats.startLevel)].start += 1;
+    if (stats.endLevel !== null) buckets[bucketOf(stats.endLevel)].end += 1;
+  }
+  return buckets;
+}
+
+/** Time-weighted wattage histogram over every sample; interpolated samples are left out. */
+export function wattageHistogram(sessions: StoredSession[], binWatts = WATTAGE_BIN): WattageBin[] {
+  const minutes = new Map<number, number>();
+  for (const { stats, logs } of sessions) {
+    const weights = sampleWeights(logs, stats.startTime);
+    logs.forEach((log, i) => {
+      if (log.interpolated) return;
+      const bin = Math.floor(log.wattage / binWatts) * binWatts;
+      minutes.set(bin, (minutes.get(bin) ?? 0) + weights[i] / 60000);
+    });
+  }
+  if (minutes.size === 0) return [];
+  const top = Math.max(...minutes.keys());
+  const bins: WattageBin[] = [];
+  for (let watts = 0; watts <= top; watts += binWatts) {
+    bins.push({ watts, minutes: minutes.get(watts) ?? 0 });
+  }
+  return bins;
+}
+
+/** Session starts by weekday and hour; empty cells are omitted. */
+export function timeOfDayHeatmap(sessions: StoredSession[]): HeatmapCell[] {
+  const cells = new Map<string, HeatmapCell>();
+  for (const { stats } of sessions) {
+    const start = new Date(stats.startTime);
+    const weekday = (start.getDay() + 6) % 7;
+    const hour = start.getHours();
+    const key = `${weekday}-${hour}`;
+    const cell = cells.get(key) ?? { weekday, hour, sessions: 0 };
+    cell.sessions += 1;
+    cells.set(key, cell);
+  }
+  return [...cells.values()];
+}
+
+export const rangeDays = (from: number, to: number) => Math.round((to - from) / MS_PER_DAY) + 1;
@@ -0,0 +1,33 @@
+import { ChargingLog, SessionStats } from '../types';
+import { LevelSample } from './powerEstimator';
+
+const CHECKPOINT_KEY = 'vf-active-session';
+
+/** The in-progress session as last written, so a reload can pick it up again. */
+export interface SessionCheckpoint {
+  session: SessionStats;
+  logs: ChargingLog[];
+  samples: LevelSample[];
+  savedAt: number;
+}
+
+export function loadCheckpoint(): SessionCheckpoint | null {
+  try {
+    const saved = localStorage.getItem(CHECKPOINT_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (!parsed || !parsed.session || parsed.session.endTime !== null) return null;
+    if (!Array.isArray(parsed.logs) || !Array.isArray(parsed.samples) || !Number.isFinite(parsed.savedAt)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/** Writes the checkpoint, or clears it when no session is in progress. */
+export function saveCheckpoint(checkpoint: SessionCheckpoint | null) {
+  if (checkpoint) {
+    localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoint));
+  } else {
+    localStorage.removeItem(CHECKPOINT_KEY);
+  }
+}
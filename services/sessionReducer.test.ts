@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROFILE, capacityWh } from './deviceProfiles';
+import {
+  BatteryReading, INITIAL_TELEMETRY_STATE, MAX_ESTIMATOR_SAMPLES, MAX_RESUME_GAP_MS, MIN_SESSION_MS,
+  TelemetryState, telemetryReducer, wantsInsight
+} from './sessionReducer';
+import { SessionCheckpoint } from './sessionCheckpoint';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1, 8);
+
+const reading = (charging: boolean, level: number, extra: Partial<BatteryReading> = {}): BatteryReading => ({
+  charging, level, chargingTime: Infinity, dischargingTime: Infinity, ...extra
+});
+
+const step = (state: TelemetryState, r: BatteryReading, now: number, drainMonitoring = false) =>
+  telemetryReducer(state, { type: 'reading', reading: r, drainMonitoring, profile: DEFAULT_PROFILE, now });
+
+/** Plugs in at `from`, gains 1% every `minutesPerPercent` up to `to`. */
+const charge = (from: number, to: number, minutesPerPercent: number, start = T0) => {
+  let state = step(INITIAL_TELEMETRY_STATE, reading(true, from / 100), start);
+  for (let pct = from + 1; pct <= to; pct++) {
+    state = step(state, reading(true, pct / 100), start + (pct - from) * minutesPerPercent * MINUTE);
+  }
+  return state;
+};
+
+describe('telemetryReducer', () => {
+  it('stays idle while unplugged without drain monitoring', () => {
+    const state = step(INITIAL_TELEMETRY_STATE, reading(false, 0.5), T0);
+    expect(state.session).toBeNull();
+    expect(state.logs).toEqual([]);
+  });
+
+  it('starts a charging session on plug-in and records a sample per level change', () => {
+    const state = charge(40, 45, 2);
+    expect(state.session).toMatchObject({ mode: 'charging', startTime: T0, startLevel: 0.4, endTime: null });
+    expect(state.logs).toHaveLength(5);
+    expect(state.logs.map(l => l.level)).toEqual([41, 42, 43, 44, 45]);
+    expect(state.metrics.watts).toBeGreaterThan(0);
+    expect(state.session!.avgWattage).toBeGreaterThan(0);
+  });
+
+  it('finishes the session on unplug and hands it over for archiving', () => {
+    const plugged = charge(40, 50, 2);
+    const end = T0 + 25 * MINUTE;
+    const state = step(plugged, reading(false, 0.5), end);
+
+    expect(state.session).toMatchObject({ endTime: end, endLevel: 0.5 });
+    expect(state.finished?.stats.startTime).toBe(T0);
+    expect(state.finished?.logs).toHaveLength(10);
+    expect(state.metrics).toEqual({ watts: 0, volts: 0, amps: 0, confidence: 0 });
+    expect(wantsInsight(state.finished!)).toBe(true);
+  });
+
+  it('clamps implausible wattage to the estimator ceiling', () => {
+    // 1% per second on a 19 Wh pack would be ~690 W
+    let state = step(INITIAL_TELEMETRY_STATE, reading(true, 0.2), T0);
+    for (let i = 1; i <= 5; i++) state = step(state, reading(true, 0.2 + i / 100), T0 + i * 1000);
+    expect(state.metrics.watts).toBeLessThanOrEqual(120);
+    expect(state.logs.every(l => l.wattage >= 0 && l.wattage <= 120)).toBe(true);
+  });
+
+  it('trims the estimator samples but keeps the full session log', () => {
+    let state = step(INITIAL_TELEMETRY_STATE, reading(false, 1), T0, true);
+    for (let i = 1; i <= 150; i++) {
+      state = step(state, reading(false, 1 - i / 1000), T0 + i * MINUTE, true);
+    }
+    expect(state.samples).toHaveLength(MAX_ESTIMATOR_SAMPLES);
+    expect(state.logs).toHaveLength(150);
+  });
+
+  it('ignores a repeated reading at the same level', () => {
+    const state = charge(40, 42, 2);
+    const again = step(state, reading(true, 0.42), T0 + 10 * MINUTE);
+    expect(again.logs).toHaveLength(state.logs.length);
+  });
+
+  it('switches from a charging to a drain session when monitoring drain', () => {
+    const plugged = charge(60, 62, 2);
+    const state = step(plugged, reading(false, 0.62), T0 + 5 * MINUTE, true);
+    expect(state.finished?.stats.mode).toBe('charging');
+    expect(state.session).toMatchObject({ mode: 'discharging', startTime: T0 + 5 * MINUTE, endTime: null });
+    expect(state.logs).toEqual([]);
+  });
+
+  it('applies stats patches to the live and finished session', () => {
+    const finished = step(charge(40, 42, 2), reading(false, 0.42), T0 + 5 * MINUTE);
+    const state = telemetryReducer(finished, { type: 'patch-session', id: T0, update: s => ({ ...s, chargerId: 'gear-1' }) });
+    expect(state.session?.chargerId).toBe('gear-1');
+    expect(state.finished?.stats.chargerId).toBe('gear-1');
+  });
+
+  describe('plug/unplug flapping', () => {
+    it('discards sessions that end within seconds without a sample', () => {
+      let state = charge(40, 50, 2);
+      state = step(state, reading(false, 0.5), T0 + 21 * MINUTE);
+      const real = state.finished;
+
+      for (let i = 0; i < 5; i++) {
+        const at = T0 + 22 * MINUTE + i * 2000;
+        state = step(state, reading(true, 0.5), at);
+        state = step(state, reading(false, 0.5), at + 1000);
+      }
+
+      expect(state.finished).toBe(real);
+      expect(state.session?.startTime).toBe(T0);
+      expect(state.logs).toHaveLength(10);
+    });
+
+    it('starts a fresh timeline when the charger is re-plugged and charging resumes', () => {
+      let state = charge(40, 45, 2);
+      state = step(state, reading(false, 0.45), T0 + 11 * MINUTE);
+      state = step(state, reading(true, 0.45), T0 + 11 * MINUTE + 500);
+      state = step(state, reading(true, 0.46), T0 + 13 * MINUTE);
+
+      expect(state.session?.startTime).toBe(T0 + 11 * MINUTE + 500);
+      expect(state.logs).toHaveLength(1);
+      expect(state.samples).toHaveLength(2);
+    });
+  });
+
+  describe('sessions that start at 100%', () => {
+    it('records a flat session without samples or invalid figures', () => {
+      let state = step(INITIAL_TELEMETRY_STATE, reading(true, 1, { chargingTime: 0 }), T0);
+      state = telemetryReducer(state, {
+        type: 'time-estimate', reading: reading(true, 1, { chargingTime: 0 }), drainMonitoring: false, profile: DEFAULT_PROFILE, now: T0 + MINUTE
+      });
+      expect(state.metrics.watts).toBe(0);
+
+      state = step(state, reading(false, 1), T0 + 90 * MINUTE);
+      expect(state.finished?.stats).toMatchObject({ startLevel: 1, endLevel: 1, avgWattage: 0, totalEnergyWh: 0 });
+      expect(state.finished?.logs).toEqual([]);
+      expect(Object.values(state.finished!.stats).every(v => typeof v !== 'number' || Number.isFinite(v))).toBe(true);
+      expect(wantsInsight(state.finished!)).toBe(false);
+    });
+
+    it('still drops a brief top-off flap', () => {
+      let state = step(INITIAL_TELEMETRY_STATE, reading(true, 1), T0);
+      state = step(state, reading(false, 1), T0 + MIN_SESSION_MS - 1);
+      expect(state.finished).toBeNull();
+      expect(state.session).toBeNull();
+    });
+  });
+
+  describe('resuming after a reload', () => {
+    const checkpointOf = (state: TelemetryState, savedAt: number): SessionCheckpoint => ({
+      session: state.session!, logs: state.logs, samples: state.samples, savedAt
+    });
+    const resume = (checkpoint: SessionCheckpoint, r: BatteryReading, now: number) => telemetryReducer(INITIAL_TELEMETRY_STATE, {
+      type: 'resume', checkpoint, reading: r, drainMonitoring: false, profile: DEFAULT_PROFILE, now
+    });
+
+    it('continues the session and bridges the gap with an interpolated sample', () => {
+      const checkpoint = checkpointOf(charge(40, 45, 2), T0 + 10 * MINUTE);
+      const state = resume(checkpoint, reading(true, 0.5), T0 + 20 * MINUTE);
+
+      expect(state.session).toMatchObject({ startTime: T0, endTime: null });
+      expect(state.session?.gaps).toEqual([{ start: T0 + 10 * MINUTE, end: T0 + 20 * MINUTE, reason: 'reload' }]);
+      expect(state.logs).toHaveLength(6);
+      const bridge = state.logs[5];
+      expect(bridge).toMatchObject({ timestamp: T0 + 20 * MINUTE, level: 50, interpolated: true, confidence: 0 });
+      // 5% of the pack over 10 minutes
+      expect(bridge.wattage).toBeCloseTo(0.05 * capacityWh(DEFAULT_PROFILE) * 6, 1);
+      expect(state.finished).toBeNull();
+
+      const next = step(state, reading(true, 0.51), T0 + 22 * MINUTE);
+      expect(next.logs).toHaveLength(7);
+      expect(next.logs[6].interpolated).toBeUndefined();
+    });
+
+    it('records only the gap when the level has not moved', () => {
+      const checkpoint = checkpointOf(charge(40, 45, 2), T0 + 10 * MINUTE);
+      const state = resume(checkpoint, reading(true, 0.45), T0 + 12 * MINUTE);
+      expect(state.logs).toHaveLength(5);
+      expect(state.session?.gaps).toHaveLength(1);
+    });
+
+    it('closes the checkpointed session when the charger was unplugged meanwhile', () => {
+      const checkpoint = checkpointOf(charge(40, 45, 2), T0 + 10 * MINUTE);
+      const state = resume(checkpoint, reading(false, 0.44), T0 + 30 * MINUTE);
+      expect(state.finished?.stats).toMatchObject({ startTime: T0, endTime: T0 + 10 * MINUTE, endLevel: 0.45 });
+      expect(state.finished?.logs).toHaveLength(5);
+    });
+
+    it('closes a checkpoint that is too old to bridge', () => {
+      const checkpoint = checkpointOf(charge(40, 45, 2), T0 + 10 * MINUTE);
+      const state = resume(checkpoint, reading(true, 0.9), T0 + 10 * MINUTE + MAX_RESUME_GAP_MS + 1);
+      expect(state.finished?.stats.endTime).toBe(T0 + 10 * MINUTE);
+    });
+  });
+
+  describe('hidden page gaps', () => {
+    const gap = (state: TelemetryState, start: number, r: BatteryReading, now: number) =>
+      telemetryReducer(state, { type: 'gap', start, reading: r, profile: DEFAULT_PROFILE, now });
+
+    it('records the hidden stretch of an active session', () => {
+      const state = gap(charge(40, 45, 2), T0 + 10 * MINUTE, reading(true, 0.47), T0 + 15 * MINUTE);
+      expect(state.session?.gaps).toEqual([{ start: T0 + 10 * MINUTE, end: T0 + 15 * MINUTE, reason: 'hidden' }]);
+      expect(state.logs[state.logs.length - 1]).toMatchObject({ level: 47, interpolated: true });
+    });
+
+    it('ignores short tab switches and idle pages', () => {
+      expect(gap(charge(40, 45, 2), T0 + 10 * MINUTE, reading(true, 0.45), T0 + 10 * MINUTE + 5000).session?.gaps).toBeUndefined();
+      expect(gap(INITIAL_TELEMETRY_STATE, T0, reading(false, 0.5), T0 + 10 * MINUTE)).toBe(INITIAL_TELEMETRY_STATE);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { ChargingLog, DeviceProfile, SessionGap, SessionMode, SessionStats } from '../types';
+import { capacityWh } from './deviceProfiles';
+import { DEFAULT_ESTIMATOR_OPTIONS, LevelSample, estimatePower } from './powerEstimator';
+import { computeSessionFigures, sessionMode } from './sessionStatistics';
+import { projectRuntimeSeconds, updatePredictionRecords } from './chargePrediction';
+import { analyzeChargeCurve, inferBusElectricals } from './chargeCurve';
+import { SessionCheckpoint } from './sessionCheckpoint';
+
+export const MAX_ESTIMATOR_SAMPLES = 120;
+// Sessions that end sooner without recording a sample are plug/unplug flaps, not sessions
+export const MIN_SESSION_MS = 60 * 1000;
+// Shorter hidden stretches are ordinary tab switches and are not recorded as gaps
+export const MIN_GAP_MS = 30 * 1000;
+// A checkpoint older than this belongs to a session that has almost certainly ended
+export const MAX_RESUME_GAP_MS = 2 * 60 * 60 * 1000;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface BatteryReading {
+  charging: boolean;
+  level: number;
+  chargingTime: number;
+  dischargingTime: number;
+}
+
+export interface LiveMetrics {
+  watts: number;
+  volts: number;
+  amps: number;
+  confidence: number;
+}
+
+export interface FinishedSession {
+  stats: SessionStats;
+  logs: ChargingLog[];
+}
+
+export interface TelemetryState {
+  session: SessionStats | null;
+  logs: ChargingLog[];
+  samples: LevelSample[];
+  metrics: LiveMetrics;
+  // Most recently finished session, kept until the next one finishes so the caller can archive it
+  finished: FinishedSession | null;
+}
+
+export type TelemetryAction =
+  // The charging state, level or drain monitoring changed
+  | { type: 'reading'; reading: BatteryReading; drainMonitoring: boolean; profile: DeviceProfile; now: number }
+  // Only the browser's time estimates changed; refines the live reading between level changes
+  | { type: 'time-estimate'; reading: BatteryReading; drainMonitoring: boolean; profile: DeviceProfile; now: number }
+  // Picks up a checkpointed session after a reload, or closes it if it cannot have continued
+  | { type: 'resume'; checkpoint: SessionCheckpoint; reading: BatteryReading; drainMonitoring: boolean; profile: DeviceProfile; now: number }
+  // The page was hidden from `start` until `now`
+  | { type: 'gap'; start: number; reading: BatteryReading; profile: DeviceProfile; now: number }
+  | { type: 'patch-session'; id: number; update: (stats: SessionStats) => SessionStats };
+
+export const IDLE_METRICS: LiveMetrics = { watts: 0, volts: 0, amps: 0, confidence: 0 };
+
+export const INITIAL_TELEMETRY_STATE: TelemetryState = {
+  session: null,
+  logs: [],
+  samples: [],
+  metrics: IDLE_METRICS,
+  finished: null,
+};
+
+export function electricalProperties(watts: number, mode: SessionMode, profile: DeviceProfile) {
+  // While draining there is no charger; the pack itself sits at its nominal voltage
+  if (mode === 'discharging') {
+    return { volts: profile.nominalVoltage, amps: watts > 0 ? watts / profile.nominalVoltage : 0 };
+  }
+  return inferBusElectricals(watts);
+}
+
+/** Only charging sessions that recorded samples have anything for an insight provider to read. */
+export function wantsInsight({ stats, logs }: FinishedSession): boolean {
+  return sessionMode(stats) === 'charging' && logs.length > 0;
+}
+
+function finishSession(state: TelemetryState, active: SessionStats, level: number, now: number): TelemetryState {
+  const stats = { ...active, endTime: now, endLevel: level };
+  if (state.logs.length === 0 && now - active.startTime < MIN_SESSION_MS) {
+    // Drop the flap and fall back to the last real session's summary
+    return {
+      ...state,
+      session: state.finished?.stats ?? null,
+      logs: state.finished?.logs ?? [],
+      samples: [],
+    };
+  }
+  return { ...state, session: stats, samples: [], finished: { stats, logs: state.logs } };
+}
+
+function recordReading(state: TelemetryState, action: Extract<TelemetryAction, { type: 'reading' }>): TelemetryState {
+  const { reading, drainMonitoring, now } = action;
+  const { level, chargingTime, dischargingTime } = reading;
+  const mode: SessionMode = reading.charging ? 'charging' : 'discharging';
+  const monitoring = reading.charging || drainMonitoring;
+  let active = state.session && state.session.endTime === null ? state.session : null;
+
+  if (active && (!monitoring || sessionMode(active) !== mode)) {
+    state = finishSession(state, active, level, now);
+    active = null;
+  }
+
+  if (!monitoring) return { ...state, metrics: IDLE_METRICS, samples: [] };
+
+  if (!active) {
+    active = {
+      mode,
+      startTime: now,
+      endTime: null,
+      startLevel: level,
+      endLevel: null,
+      avgWattage: 0,
+      maxWattage: 0,
+      avgVoltage: 0,
+      maxAmperage: 0,
+      totalEnergyWh: 0,
+      profile: action.profile
+    };
+    state = { ...state, session: active, logs: [], samples: [] };
+  }
+
+  // A session keeps the profile it started with, even if the picker changes mid-session
+  const profile = active.profile ?? action.profile;
+  const last = state.samples[state.samples.length - 1];
+  if (last && last.level === level) return state;
+
+  // Only levelchange events after the first sample land exactly on a 1% boundary
+  const samples = [...state.samples.slice(-(MAX_ESTIMATOR_SAMPLES - 1)), { time: now, level, boundary: !!last }];
+  if (!last || now <= last.time) return { ...state, samples };
+
+  const estimate = estimatePower(samples, { capacityWh: capacityWh(profile), chargingTime, dischargingTime, mode, now });
+  const { volts, amps } = electricalProperties(estimate.watts, mode, profile);
+  const runtimeSeconds = mode === 'discharging'
+    ? projectRuntimeSeconds(level, estimate.watts, capacityWh(profile), dischargingTime)
+    : null;
+
+  const sample: ChargingLog = {
+    timestamp: now,
+    level: level * 100,
+    wattage: estimate.watts,
+    voltage: volts,
+    amperage: amps,
+    status: mode,
+    confidence: estimate.confidence,
+    ...(runtimeSeconds !== null ? { runtimeSeconds } : {})
+  };
+  const next = appendLog({ ...state, samples }, active, profile, sample);
+
+  const predictionInput = {
+    level,
+    chargingTime,
+    watts: estimate.watts,
+    confidence: estimate.confidence,
+    capacityWh: capacityWh(profile)
+  };
+
+  return {
+    ...next,
+    metrics: { watts: estimate.watts, volts, amps, confidence: estimate.confidence },
+    session: mode === 'charging'
+      ? { ...next.session!, predictions: updatePredictionRecords(active.predictions ?? [], predictionInput, now) }
+      : next.session
+  };
+}
+
+function appendLog(state: TelemetryState, active: SessionStats, profile: DeviceProfile, sample: ChargingLog): TelemetryState {
+  const logs = [...state.logs, sample];
+  return {
+    ...state,
+    logs,
+    session: {
+      ...active,
+      ...computeSessionFigures(logs, active.startTime, profile.nominalVoltage),
+      ...(sessionMode(active) === 'charging' ? analyzeChargeCurve(logs) : {})
+    }
+  };
+}
+
+/**
+ * Records a stretch without sampling. If the level moved meanwhile, a log
+ * marked `interpolated` carries the average wattage across the gap so the
+ * session's energy still adds up.
+ */
+function bridgeGap(state: TelemetryState, active: SessionStats, profile: DeviceProfile, level: number, gap: SessionGap): TelemetryState {
+  const session = { ...active, gaps: [...(active.gaps ?? []), gap] };
+  state = { ...state, session };
+  const last = state.samples[state.samples.length - 1];
+  if (!last || last.level === level || gap.end <= last.time) return state;
+
+  const mode = sessionMode(active);
+  const gained = mode === 'charging' ? level - last.level : last.level - level;
+  const watts = Math.min(
+    Math.max(0, gained) * capacityWh(profile) / ((gap.end - last.time) / MS_PER_HOUR),
+    DEFAULT_ESTIMATOR_OPTIONS.maxWatts
+  );
+  const { volts, amps } = electricalProperties(watts, mode, profile);
+  // Whatever happened during the gap, the next sample is not on a 1% boundary
+  const samples = [...state.samples.slice(-(MAX_ESTIMATOR_SAMPLES - 1)), { time: gap.end, level, boundary: false }];
+  return appendLog({ ...state, samples }, session, profile, {
+    timestamp: gap.end,
+    level: level * 100,
+    wattage: watts,
+    voltage: volts,
+    amperage: amps,
+    status: mode,
+    confidence: 0,
+    interpolated: true
+  });
+}
+
+function resumeSession(state: TelemetryState, action: Extract<TelemetryAction, { type: 'resume' }>): TelemetryState {
+  const { checkpoint, reading, drainMonitoring, now } = action;
+  const active = checkpoint.session;
+  const mode: SessionMode = reading.charging ? 'charging' : 'discharging';
+  const restored = { ...state, session: active, logs: checkpoint.logs, samples: checkpoint.samples };
+
+  if ((reading.charging || drainMonitoring) && sessionMode(active) === mode && now - checkpoint.savedAt <= MAX_RESUME_GAP_MS) {
+    return bridgeGap(restored, active, active.profile ?? action.profile, reading.level, { start: checkpoint.savedAt, end: now, reason: 'reload' });
+  }
+  // The session ended while VoltFlow was closed; close it where the checkpoint left off
+  const lastLevel = checkpoint.samples[checkpoint.samples.length - 1]?.level ?? active.startLevel;
+  return finishSession(restored, active, lastLevel, checkpoint.savedAt);
+}
+
+function refineEstimate(state: TelemetryState, action: Extract<TelemetryAction, { type: 'time-estimate' }>): TelemetryState {
+  const { reading, drainMonitoring, now } = action;
+  if (!(reading.charging || drainMonitoring) || state.samples.length === 0) return state;
+  const mode: SessionMode = reading.charging ? 'charging' : 'discharging';
+  const profile = state.session?.endTime === null && state.session.profile ? state.session.profile : action.profile;
+  const estimate = estimatePower(state.samples, {
+    capacityWh: capacityWh(profile), chargingTime: reading.chargingTime, dischargingTime: reading.dischargingTime, mode, now
+  });
+  if (estimate.source === 'none') return state;
+  const { volts, amps } = electricalProperties(estimate.watts, mode, profile);
+  return { ...state, metrics: { watts: estimate.watts, volts, amps, confidence: estimate.confidence } };
+}
+
+/**
+ * Session lifecycle as a pure reducer: starts a session when monitoring
+ * begins, records a sample per level change, and finishes the session when
+ * the charger is unplugged (or re-plugged during drain monitoring).
+ */
+export function telemetryReducer(state: TelemetryState, action: TelemetryAction): TelemetryState {
+  switch (action.type) {
+    case 'reading':
+      return recordReading(state, action);
+    case 'time-estimate':
+      return refineEstimate(state, action);
+    case 'resume':
+      return resumeSession(state, action);
+    case 'gap': {
+      const active = state.session && state.session.endTime === null ? state.session : null;
+      if (!active || action.now - action.start < MIN_GAP_MS) return state;
+      const start = Math.max(action.start, active.startTime);
+      return bridgeGap(state, active, active.profile ?? action.profile, action.reading.level, { start, end: action.now, reason: 'hidden' });
+    }
+    case 'patch-session': {
+      const apply = (s: SessionStats) => (s.startTime === action.id ? action.update(s) : s);
+      return {
+        ...state,
+        session: state.session && apply(state.session),
+        finished: state.finished && { ...state.finished, stats: apply(state.finished.stats) },
+      };
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { ChargingLog, SessionMode, SessionStats } from '../types';
+
+export interface SessionFigures {
+  avgWattage: number;
+  avgVoltage: number;
+  maxWattage: number;
+  minWattage: number;
+  p50Wattage: number;
+  p90Wattage: number;
+  maxAmperage: number;
+  totalEnergyWh: number;
+  chargeMah: number;
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export function sessionMode(stats: SessionStats): SessionMode {
+  return stats.mode ?? 'charging';
+}
+
+/**
+ * Each sample's wattage is an estimate over the interval since the previous
+ * sample (or since the session started, for the first one), so that interval
+ * is the sample's weight.
+ */
+export function sampleWeights(logs: ChargingLog[], startTime: number): number[] {
+  return logs.map((log, i) => Math.max(log.timestamp - (i === 0 ? startTime : logs[i - 1].timestamp), 0));
+}
+
+/** Middle value, or the mean of the two middle values; null when there are none. */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Time-weighted percentile: the value below which `p` of the recorded time was spent. */
+export function weightedPercentile(values: number[], weights: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const order = values.map((v, i) => ({ v, w: weights[i] })).sort((a, b) => a.v - b.v);
+  const total = order.reduce((sum, o) => sum + o.w, 0);
+  if (total === 0) return order[Math.min(Math.floor(p * order.length), order.length - 1)].v;
+  let acc = 0;
+  for (const o of order) {
+    acc += o.w;
+    if (acc >= p * total) return o.v;
+  }
+  return order[order.length - 1].v;
+}
+
+/**
+ * Integrates the sample timeline of a session. Charge is reported on the
+ * battery side: delivered (or drained) energy over the pack's nominal
+ * voltage, because the logged amperage of charging samples is at the
+ * (inferred) charger voltage.
+ */
+export function computeSessionFigures(logs: ChargingLog[], startTime: number, nominalVoltage: number): SessionFigures {
+  if (logs.length === 0) {
+    return {
+      avgWattage: 0, avgVoltage: 0, maxWattage: 0, minWattage: 0,
+      p50Wattage: 0, p90Wattage: 0, maxAmperage: 0, totalEnergyWh: 0, chargeMah: 0
+    };
+  }
+
+  const weights = sampleWeights(logs, startTime);
+  const totalMs = weights.reduce((sum, w) => sum + w, 0);
+  const wattages = logs.map(l => l.wattage);
+
+  let energyWh = 0;
+  let voltMs = 0;
+  logs.forEach((log, i) => {
+    energyWh += (log.wattage * weights[i]) / MS_PER_HOUR;
+    voltMs += log.voltage * weights[i];
+  });
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    avgWattage: totalMs > 0 ? (energyWh * MS_PER_HOUR) / totalMs : mean(wattages),
+    avgVoltage: totalMs > 0 ? voltMs / totalMs : mean(logs.map(l => l.voltage)),
+    maxWattage: Math.max(...wattages),
+    minWattage: Math.min(...wattages),
+    p50Wattage: weightedPercentile(wattages, weights, 0.5),
+    p90Wattage: weightedPercentile(wattages, weights, 0.9),
+    maxAmperage: Math.max(...logs.map(l => l.amperage)),
+    totalEnergyWh: energyWh,
+    chargeMah: nominalVoltage > 0 ? (energyWh / nominalVoltage) * 1000 : 0
+  };
+}
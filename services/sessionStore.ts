@@ -0,0 +1,226 @@
+import { RetentionPolicy, SessionStats, StoredSession } from '../types';
+
+const DB_NAME = 'voltflow';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const RETENTION_KEY = 'vf-retention';
+const LEGACY_SESSIONS_KEY = 'vf-sessions';
+
+// Nothing is pruned until the user picks a limit, so migrated history is never dropped behind their back
+export const DEFAULT_RETENTION: RetentionPolicy = { maxSessions: null, maxAgeDays: null, maxSizeMb: null };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function store(mode: IDBTransactionMode) {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, mode);
+  return { tx, sessions: tx.objectStore(SESSIONS) };
+}
+
+/** Approximate on-disk footprint of a record, used for size-based retention. */
+function recordBytes(record: StoredSession): number {
+  return JSON.stringify(record).length * 2;
+}
+
+export async function saveSession(session: StoredSession) {
+  const { tx, sessions } = await store('readwrite');
+  sessions.put(session);
+  await complete(tx);
+}
+
+export async function getSession(id: number): Promise<StoredSession | null> {
+  const { sessions } = await store('readonly');
+  return (await promisify(sessions.get(id))) || null;
+}
+
+export async function deleteSession(id: number) {
+  const { tx, sessions } = await store('readwrite');
+  sessions.delete(id);
+  await complete(tx);
+}
+
+export async function clearSessions() {
+  const { tx, sessions } = await store('readwrite');
+  sessions.clear();
+  await complete(tx);
+}
+
+export async function countSessions(): Promise<number> {
+  const { sessions } = await store('readonly');
+  return promisify(sessions.count());
+}
+
+/** Newest-first page of session summaries; logs stay in the archive until requested via getSession. */
+export async function listSessions(offset: number, limit: number): Promise<SessionStats[]> {
+  const { sessions } = await store('readonly');
+  return new Promise((resolve, reject) => {
+    const page: SessionStats[] = [];
+    let skipped = offset === 0;
+    const req = sessions.openCursor(null, 'prev');
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor || page.length >= limit) {
+        resolve(page);
+        return;
+      }
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      page.push((cursor.value as StoredSession).stats);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function getAllSessions(): Promise<StoredSession[]> {
+  const { sessions } = await store('readonly');
+  const all = await promisify(sessions.getAll());
+  return (all as StoredSession[]).sort((a, b) => b.id - a.id);
+}
+
+/** Adds sessions that are not archived yet; existing startTimes are left untouched. */
+export async function mergeSessions(records: StoredSession[]): Promise<{ added: number; skipped: number }> {
+  const { tx, sessions } = await store('readwrite');
+  let added = 0;
+  let skipped = 0;
+  for (const record of records) {
+    const req = sessions.add(record);
+    req.onsuccess = () => { added++; };
+    req.onerror = e => {
+      e.preventDefault();
+      e.stopPropagation();
+      skipped++;
+    };
+  }
+  await complete(tx);
+  return { added, skipped };
+}
+
+export async function getArchiveUsage(): Promise<{ count: number; bytes: number }> {
+  const { sessions } = await store('readonly');
+  return new Promise((resolve, reject) => {
+    let count = 0;
+    let bytes = 0;
+    const req = sessions.openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) {
+        resolve({ count, bytes });
+        return;
+      }
+      count++;
+      bytes += recordBytes(cursor.value);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Deletes the oldest sessions that fall outside any limit of the policy. Returns how many were removed. */
+export async function applyRetention(policy: RetentionPolicy, now = Date.now()): Promise<number> {
+  const { tx, sessions } = await store('readwrite');
+  const maxBytes = policy.maxSizeMb !== null ? policy.maxSizeMb * 1024 * 1024 : Infinity;
+  const minStart = policy.maxAgeDays !== null ? now - policy.maxAgeDays * 24 * 60 * 60 * 1000 : -Infinity;
+  const maxCount = policy.maxSessions ?? Infinity;
+  let kept = 0;
+  let bytes = 0;
+  let removed = 0;
+
+  const req = sessions.openCursor(null, 'prev');
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    const record = cursor.value as StoredSession;
+    bytes += recordBytes(record);
+    if (kept >= maxCount || record.id < minStart || bytes > maxBytes) {
+      cursor.delete();
+      removed++;
+    } else {
+      kept++;
+    }
+    cursor.continue();
+  };
+  await complete(tx);
+  return removed;
+}
+
+export function loadRetentionPolicy(): RetentionPolicy {
+  try {
+    const saved = localStorage.getItem(RETENTION_KEY);
+    return saved ? { ...DEFAULT_RETENTION, ...JSON.parse(saved) } : DEFAULT_RETENTION;
+  } catch {
+    return DEFAULT_RETENTION;
+  }
+}
+
+export function saveRetentionPolicy(policy: RetentionPolicy) {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+}
+
+/**
+ * Imports the summary-only sessions the app used to keep under `vf-sessions`.
+ * They have no recorded samples, so they are archived with an empty log.
+ */
+export async function migrateLegacySessions(): Promise<number> {
+  const saved = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!saved) return 0;
+
+  let legacy: SessionStats[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    legacy = Array.isArray(parsed) ? parsed.filter(s => typeof s?.startTime === 'number') : [];
+  } catch {
+    legacy = [];
+  }
+
+  const { tx, sessions } = await store('readwrite');
+  for (const stats of legacy) {
+    // add() rejects duplicates, so an interrupted earlier migration is not double-imported
+    const req = sessions.add({ id: stats.startTime, stats, logs: [] } as StoredSession);
+    req.onerror = e => {
+      e.preventDefault();
+      e.stopPropagation();
+    };
+  }
+  await complete(tx);
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  return legacy.length;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ChargingLog, SessionStats, StoredSession } from '../types';
+import { SessionImportError, parseSessionFile, toCsv, toJson } from './sessionTransfer';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1, 8);
+
+const log = (minute: number, level: number, status: ChargingLog['status']): ChargingLog => ({
+  timestamp: T0 + minute * MINUTE, level, wattage: 4.2, voltage: 3.9, amperage: 1.08, status
+});
+
+const session = (start: number, overrides: Partial<SessionStats> = {}, logs: ChargingLog[] = []): StoredSession => ({
+  id: start,
+  stats: {
+    mode: 'charging', startTime: start, endTime: start + 60 * MINUTE, startLevel: 0.2, endLevel: 0.8,
+    avgWattage: 10, maxWattage: 12, avgVoltage: 9, maxAmperage: 1.3, totalEnergyWh: 12, ...overrides
+  },
+  logs
+});
+
+describe('sessionTransfer', () => {
+  const drain = session(T0, { mode: 'discharging', startLevel: 0.9, endLevel: 0.7 }, [log(1, 89, 'discharging'), log(2, 88, 'discharging')]);
+  const charge = session(T0 + 120 * MINUTE, { chargerId: 'gear-usb-c, 20W', cableId: 'gear-"braided"' });
+
+  it('round-trips sessions through CSV', () => {
+    const restored = parseSessionFile(toCsv([drain, charge]));
+    expect(restored).toEqual([drain, charge]);
+  });
+
+  it('round-trips sessions through JSON', () => {
+    expect(parseSessionFile(toJson([drain, charge]))).toEqual([drain, charge]);
+  });
+
+  it('imports CSV exported before the optional columns existed', () => {
+    const [header, ...rows] = toCsv([session(T0)]).split('\n');
+    const columns = header.split(',');
+    // An untagged session has no quoted cells, so splitting on commas is safe
+    const keep = columns.map((_, i) => i).filter(i => !['mode', 'charger_id', 'cable_id'].includes(columns[i]));
+    const legacy = [header, ...rows].map(line => keep.map(i => line.split(',')[i]).join(',')).join('\n');
+    const [restored] = parseSessionFile(legacy);
+    expect(restored.stats.mode).toBeUndefined();
+    expect(restored.stats.chargerId).toBeUndefined();
+    expect(restored.stats.totalEnergyWh).toBe(12);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseSessionFile('{"format":"other"}')).toThrow(SessionImportError);
+    expect(() => parseSessionFile(toJson([session(T0, { mode: 'sideways' as SessionStats['mode'] })]))).toThrow(/mode/);
+    expect(() => parseSessionFile(toJson([session(T0, { mode: 'sideways' as SessionStats['mode'] })])))
+      .toThrow(expect.objectContaining({ key: 'import.mode', params: { session: 1 } }));
+    expect(() => parseSessionFile(JSON.stringify({ format: 'voltflow-sessions', version: 1, sessions: [{ stats: null }] }))).toThrow(/missing stats/);
+  });
+
+  it('rejects malformed nested fields', () => {
+    const withStats = (stats: Record<string, unknown>) => toJson([session(T0, stats as Partial<SessionStats>)]);
+    const insight = {
+      grade: 'B', protocolTier: 'usb-pd', summary: 'Solid', healthFlags: [{ severity: 'info', message: 'ok' }],
+      recommendations: [], provider: 'offline', generatedAt: T0, fellBack: false
+    };
+    expect(parseSessionFile(withStats({ insight }))[0].stats.insight).toEqual(insight);
+    expect(() => parseSessionFile(withStats({ insight: { ...insight, healthFlags: 'x' } }))).toThrow(/insight is malformed/);
+    expect(() => parseSessionFile(withStats({ phases: { phase: 'cc' } }))).toThrow(/phases is malformed/);
+    expect(() => parseSessionFile(withStats({ gaps: [{ start: T0, end: T0 + MINUTE, reason: 'nap' }] }))).toThrow(/gaps/);
+    expect(() => parseSessionFile(withStats({ predictions: [{ target: 1 }] }))).toThrow(/predictions/);
+    expect(() => parseSessionFile(withStats({ goal: { lowerLimit: 0.2 } }))).toThrow(/goal/);
+  });
+});
@@ -0,0 +1,300 @@
+import { ChargePhase, ChargingLog, DeviceProfile, InsightProviderId, SessionGapReason, SessionStats, StoredSession, VoltageTier } from '../types';
+import { validateProfile } from './deviceProfiles';
+import { PHASE_META, VOLTAGE_TIER_META } from './chargeCurve';
+import { CHARGER_GRADES, FLAG_SEVERITIES, PROTOCOL_TIERS } from './insightPrompt';
+import { en } from '../locales/en';
+import { MessageKey, MessageParams, interpolate } from './i18n';
+
+export const EXPORT_FORMAT = 'voltflow-sessions';
+export const EXPORT_VERSION = 1;
+
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: StoredSession[];
+}
+
+/**
+ * Carries a message key so the UI can translate it; the message itself is English for logs.
+ * `detail` names a nested problem, e.g. why a profile was rejected, filled into `{detail}`.
+ */
+export class SessionImportError extends Error {
+  constructor(readonly key: MessageKey, readonly params: MessageParams = {}, readonly detail?: MessageKey) {
+    super(interpolate(en[key], { ...params, ...(detail ? { detail: en[detail] } : {}) }));
+    this.name = 'SessionImportError';
+  }
+}
+
+const CSV_COLUMNS = [
+  'session_start', 'session_end', 'start_level', 'end_level',
+  'avg_wattage', 'max_wattage', 'avg_voltage', 'max_amperage', 'total_energy_wh',
+  'profile_id', 'profile_name', 'profile_mah', 'profile_voltage', 'profile_chemistry',
+  'timestamp', 'level', 'wattage', 'voltage', 'amperage', 'status'
+] as const;
+// Added after the first CSV release; files exported before then import without them
+const OPTIONAL_CSV_COLUMNS = ['mode', 'charger_id', 'cable_id'] as const;
+
+type CsvRow = Record<typeof CSV_COLUMNS[number] | typeof OPTIONAL_CSV_COLUMNS[number], string>;
+
+export function toJson(sessions: StoredSession[]): string {
+  const payload: SessionExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    sessions
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+const escapeCsv = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per sample with the session columns repeated, so the file opens
+ * directly in a spreadsheet. Sessions without samples get a single row with
+ * empty sample columns.
+ */
+export function toCsv(sessions: StoredSession[]): string {
+  const rows = [[...CSV_COLUMNS, ...OPTIONAL_CSV_COLUMNS].join(',')];
+  for (const { stats, logs } of sessions) {
+    const sessionCells = [
+      stats.startTime, stats.endTime, stats.startLevel, stats.endLevel,
+      stats.avgWattage, stats.maxWattage, stats.avgVoltage, stats.maxAmperage, stats.totalEnergyWh,
+      stats.profile?.id, stats.profile?.name, stats.profile?.capacityMah, stats.profile?.nominalVoltage, stats.profile?.chemistry
+    ];
+    const optionalCells = [stats.mode, stats.chargerId, stats.cableId];
+    const samples: (ChargingLog | null)[] = logs.length > 0 ? logs : [null];
+    for (const log of samples) {
+      const sampleCells = log
+        ? [log.timestamp, log.level, log.wattage, log.voltage, log.amperage, log.status]
+        : ['', '', '', '', '', ''];
+      rows.push([...sessionCells, ...sampleCells, ...optionalCells].map(escapeCsv).join(','));
+    }
+  }
+  return rows.join('\n');
+}
+
+function parseCsvLines(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c !== ''));
+}
+
+const num = (value: string) => (value === '' ? null : Number(value));
+
+function fromCsv(text: string): unknown[] {
+  const [header, ...lines] = parseCsvLines(text);
+  if (!header || CSV_COLUMNS.some(col => !header.includes(col))) {
+    throw new SessionImportError('import.csvColumns');
+  }
+
+  const bySession = new Map<string, { stats: Record<string, unknown>; logs: unknown[] }>();
+  for (const cells of lines) {
+    const row = Object.fromEntries(header.map((col, i) => [col, cells[i] ?? ''])) as CsvRow;
+    let entry = bySession.get(row.session_start);
+    if (!entry) {
+      const profile = row.profile_id ? {
+        id: row.profile_id,
+        name: row.profile_name,
+        capacityMah: num(row.profile_mah),
+        nominalVoltage: num(row.profile_voltage),
+        ...(row.profile_chemistry ? { chemistry: row.profile_chemistry } : {})
+      } : undefined;
+      entry = {
+        stats: {
+          startTime: num(row.session_start),
+          endTime: num(row.session_end),
+          startLevel: num(row.start_level),
+          endLevel: num(row.end_level),
+          avgWattage: num(row.avg_wattage),
+          maxWattage: num(row.max_wattage),
+          avgVoltage: num(row.avg_voltage),
+          maxAmperage: num(row.max_amperage),
+          totalEnergyWh: num(row.total_energy_wh),
+          ...(row.mode ? { mode: row.mode } : {}),
+          ...(row.charger_id ? { chargerId: row.charger_id } : {}),
+          ...(row.cable_id ? { cableId: row.cable_id } : {}),
+          ...(profile ? { profile } : {})
+        },
+        logs: []
+      };
+      bySession.set(row.session_start, entry);
+    }
+    if (row.timestamp !== '') {
+      entry.logs.push({
+        timestamp: num(row.timestamp),
+        level: num(row.level),
+        wattage: num(row.wattage),
+        voltage: num(row.voltage),
+        amperage: num(row.amperage),
+        status: row.status
+      });
+    }
+  }
+  return [...bySession.values()];
+}
+
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+type Check = (v: unknown) => boolean;
+const isString: Check = v => typeof v === 'string';
+const isBoolean: Check = v => typeof v === 'boolean';
+const orNull = (check: Check): Check => v => v === null || check(v);
+const oneOf = (options: readonly string[]): Check => v => typeof v === 'string' && options.includes(v);
+const arrayOf = (check: Check): Check => v => Array.isArray(v) && v.every(check);
+const shape = (fields: Record<string, Check>): Check => v => isRecord(v) && Object.entries(fields).every(([key, check]) => check(v[key]));
+
+const INSIGHT_PROVIDER_IDS: InsightProviderId[] = ['gemini', 'openai-compatible', 'offline'];
+const GAP_REASONS: SessionGapReason[] = ['reload', 'hidden'];
+
+// Optional stats the UI renders straight from the archive, so a malformed one must not get in
+const OPTIONAL_STATS: Record<string, Check> = {
+  minWattage: isNum,
+  p50Wattage: isNum,
+  p90Wattage: isNum,
+  chargeMah: isNum,
+  voltageTier: oneOf(Object.keys(VOLTAGE_TIER_META) as VoltageTier[]),
+  bulkPercentPerHour: isNum,
+  predictions: arrayOf(shape({ target: isNum, madeAt: isNum, madeAtLevel: isNum, predictedAt: isNum, actualAt: orNull(isNum) })),
+  phases: arrayOf(shape({ phase: oneOf(Object.keys(PHASE_META) as ChargePhase[]), start: isNum, end: isNum })),
+  gaps: arrayOf(shape({ start: isNum, end: isNum, reason: oneOf(GAP_REASONS) })),
+  goal: shape({ lowerLimit: isNum, upperLimit: isNum, msAboveLimit: isNum, peakLevel: isNum, startedBelowLower: isBoolean }),
+  insight: shape({
+    grade: oneOf(CHARGER_GRADES),
+    protocolTier: oneOf(PROTOCOL_TIERS),
+    summary: isString,
+    healthFlags: arrayOf(shape({ severity: oneOf(FLAG_SEVERITIES), message: isString })),
+    recommendations: arrayOf(isString),
+    provider: oneOf(INSIGHT_PROVIDER_IDS),
+    generatedAt: isNum,
+    fellBack: isBoolean,
+  }),
+};
+
+function validateLog(raw: unknown, session: number): ChargingLog {
+  if (!isRecord(raw)) throw new SessionImportError('import.sampleObject', { session });
+  const fields = ['timestamp', 'level', 'wattage', 'voltage', 'amperage'] as const;
+  for (const field of fields) {
+    if (!isNum(raw[field])) throw new SessionImportError('import.sampleNumber', { session, field });
+  }
+  if (raw.status !== 'charging' && raw.status !== 'discharging') {
+    throw new SessionImportError('import.sampleStatus', { session });
+  }
+  return { ...raw } as unknown as ChargingLog;
+}
+
+function validateSession(raw: unknown, index: number): StoredSession {
+  const session = index + 1;
+  const stats = isRecord(raw) ? raw.stats : undefined;
+  if (!isRecord(raw) || !isRecord(stats)) throw new SessionImportError('import.missingStats', { session });
+
+  const required = ['startTime', 'startLevel', 'avgWattage', 'maxWattage', 'avgVoltage', 'maxAmperage', 'totalEnergyWh'] as const;
+  for (const field of required) {
+    if (!isNum(stats[field])) throw new SessionImportError('import.number', { session, field });
+  }
+  for (const field of ['endTime', 'endLevel'] as const) {
+    if (stats[field] !== null && !isNum(stats[field])) throw new SessionImportError('import.numberOrNull', { session, field });
+  }
+  if (stats.mode !== undefined && stats.mode !== 'charging' && stats.mode !== 'discharging') {
+    throw new SessionImportError('import.mode', { session });
+  }
+  for (const field of ['chargerId', 'cableId'] as const) {
+    if (stats[field] !== undefined && typeof stats[field] !== 'string') throw new SessionImportError('import.string', { session, field });
+  }
+  for (const [field, check] of Object.entries(OPTIONAL_STATS)) {
+    if (stats[field] !== undefined && !check(stats[field])) throw new SessionImportError('import.malformed', { session, field });
+  }
+  if (stats.profile !== undefined) {
+    const problem = validateProfile(stats.profile);
+    if (problem) throw new SessionImportError('import.profile', { session }, problem);
+  }
+  if (!Array.isArray(raw.logs)) throw new SessionImportError('import.logs', { session });
+
+  const logs: unknown[] = raw.logs;
+  return {
+    id: stats.startTime as number,
+    stats: { ...stats, profile: stats.profile as DeviceProfile | undefined } as unknown as SessionStats,
+    logs: logs.map(log => validateLog(log, session))
+  };
+}
+
+/** Parses a VoltFlow JSON or CSV export. Throws SessionImportError when the file does not match the schema. */
+export function parseSessionFile(text: string): StoredSession[] {
+  const trimmed = text.trim();
+  let raw: unknown[];
+
+  if (trimmed.startsWith('{')) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(trimmed);
+    } catch {
+      throw new SessionImportError('import.notJson');
+    }
+    if (!isRecord(payload) || payload.format !== EXPORT_FORMAT) throw new SessionImportError('import.notExport');
+    if (!isNum(payload.version) || payload.version > EXPORT_VERSION) {
+      throw new SessionImportError('import.version', { version: String(payload.version) });
+    }
+    if (!Array.isArray(payload.sessions)) throw new SessionImportError('import.noSessions');
+    raw = payload.sessions;
+  } else {
+    raw = fromCsv(trimmed);
+  }
+
+  // The archive is keyed by startTime, so the last duplicate inside one file wins
+  const unique = new Map<number, StoredSession>();
+  raw.map(validateSession).forEach(s => unique.set(s.id, s));
+  return [...unique.values()];
+}
+
+export function exportFileName(ext: 'json' | 'csv', session?: SessionStats) {
+  const stamp = new Date(session ? session.startTime : Date.now()).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  return `voltflow-${session ? 'session' : 'sessions'}-${stamp}.${ext}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -1,19 +1,82 @@
-
-const CACHE_NAME = 'voltflow-v1';
-const ASSETS = [
-  '/',
-  '/index.html',
-  '/manifest.json'
-];
+// The build prepends `self.__VF_BUILD` with the cache version and every emitted asset (see serviceWorkerPlugin.ts)
+const { version: CACHE_VERSION, urls: PRECACHE_URLS } = self.__VF_BUILD || { version: 'dev', urls: [] };
+const CACHE_PREFIX = 'voltflow-';
+const PRECACHE = `${CACHE_PREFIX}precache-${CACHE_VERSION}`;
+// Fonts and icons live on CDNs; cached as they are fetched and kept across app versions
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+const RUNTIME_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com', 'cdn-icons-png.flaticon.com'];
+const APP_SHELL = 'index.html';
 
 self.addEventListener('install', (e) => {
   e.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
+    caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS))
   );
 });
 
+self.addEventListener('activate', (e) => {
+  e.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks a waiting worker to take over once the user accepts the update prompt
+self.addEventListener('message', (e) => {
+  if (e.data && e.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const fromPrecache = (request, options) =>
+  caches.open(PRECACHE).then((cache) => cache.match(request, options));
+
+const staleWhileRevalidate = (request) =>
+  caches.open(RUNTIME_CACHE).then((cache) =>
+    cache.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((res) => {
+          if (res.ok || res.type === 'opaque') cache.put(request, res.clone());
+          return res;
+        })
+        .catch(() => cached);
+      return cached || network;
+    })
+  );
+
 self.addEventListener('fetch', (e) => {
-  e.respondWith(
-    caches.match(e.request).then((res) => res || fetch(e.request))
+  const { request } = e;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    // Every route (including ?simulate links) boots the same precached shell
+    e.respondWith(
+      fromPrecache(APP_SHELL).then((res) => res || fetch(request))
+    );
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    e.respondWith(
+      fromPrecache(request, { ignoreSearch: true }).then((res) => res || fetch(request))
+    );
+    return;
+  }
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    e.respondWith(staleWhileRevalidate(request));
+  }
+  // Anything else (insight providers, sync endpoints) goes straight to the network
+});
+
+// Charge alerts: bring the monitor back to the front when a notification is tapped
+self.addEventListener('notificationclick', (e) => {
+  e.notification.close();
+  e.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('./index.html');
+    })
   );
 });
@@ -10,16 +10,50 @@ export interface BatteryManager extends EventTarget {
   onlevelchange: ((this: BatteryManager, ev: Event) => any) | null;
 }
 
+export type Theme = 'dark' | 'light';
+
+export type Locale = 'en' | 'de';
+
+export interface Preferences {
+  locale: Locale;
+  hourCycle: '12h' | '24h';
+  // Unit for the live charge readout on the capacity card
+  capacityUnit: 'mAh' | 'Wh';
+  // Decimal places for watts and volts; amps and energy get one more
+  precision: number;
+}
+
+export type BatteryChemistry = 'li-ion' | 'li-po' | 'li-fepo4';
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  capacityMah: number;
+  nominalVoltage: number;
+  chemistry?: BatteryChemistry;
+}
+
+export type SessionMode = 'charging' | 'discharging';
+
 export interface ChargingLog {
   timestamp: number;
   level: number;
   wattage: number;
+  // Inferred from the wattage (charger bus tier, or the pack's nominal voltage while draining); never measured
   voltage: number;
   amperage: number;
-  status: 'charging' | 'discharging';
+  status: SessionMode;
+  // Estimator confidence (0..1) for the wattage reading
+  confidence?: number;
+  // Projected seconds until empty, recorded on discharging samples
+  runtimeSeconds?: number;
+  // Bridges a monitoring gap: the wattage is the average across the gap, not a reading
+  interpolated?: boolean;
 }
 
 export interface SessionStats {
+  // Absent on sessions recorded before drain monitoring existed, which are all charging sessions
+  mode?: SessionMode;
   startTime: number;
   endTime: number | null;
   startLevel: number;
@@ -29,4 +63,195 @@ export interface SessionStats {
   avgVoltage: number;
   maxAmperage: number;
   totalEnergyWh: number;
+  // Time-weighted figures; absent on sessions recorded before they were tracked
+  minWattage?: number;
+  p50Wattage?: number;
+  p90Wattage?: number;
+  chargeMah?: number;
+  predictions?: PredictionRecord[];
+  // Snapshot of the profile active when the session was recorded
+  profile?: DeviceProfile;
+  insight?: SessionInsight;
+  // Charge-curve analysis of charging sessions
+  phases?: ChargePhaseSpan[];
+  voltageTier?: VoltageTier;
+  // Level (%) gained per hour of constant-current charging; measured, not derived from the rated capacity
+  bulkPercentPerHour?: number;
+  // Gear library ids the session was tagged with
+  chargerId?: string;
+  cableId?: string;
+  // Stretches where VoltFlow was not sampling (page reloaded or hidden)
+  gaps?: SessionGap[];
+  // Scored against the charging goals in effect when a charging session ended
+  goal?: GoalScore;
+}
+
+export interface ChargingGoals {
+  enabled: boolean;
+  // Battery level fractions (0..1) to keep the charge between
+  lowerLimit: number;
+  upperLimit: number;
+  // Local "HH:MM" the charge should reach the upper limit by, or null
+  readyBy: string | null;
+}
+
+export interface GoalScore {
+  lowerLimit: number;
+  upperLimit: number;
+  msAboveLimit: number;
+  peakLevel: number;
+  startedBelowLower: boolean;
+}
+
+export type SessionGapReason = 'reload' | 'hidden';
+
+export interface SessionGap {
+  start: number;
+  end: number;
+  reason: SessionGapReason;
+}
+
+export type GearKind = 'charger' | 'cable';
+
+export interface GearItem {
+  id: string;
+  kind: GearKind;
+  name: string;
+  ratedWatts: number | null;
+  notes: string;
+}
+
+export type ChargePhase = 'cc' | 'cv' | 'trickle' | 'throttle';
+
+export interface ChargePhaseSpan {
+  phase: ChargePhase;
+  start: number;
+  end: number;
+}
+
+export type VoltageTier = 'usb-5v' | 'fast-9v' | 'pd-12v';
+
+export interface StoredSession {
+  // Session startTime, doubles as the archive key
+  id: number;
+  stats: SessionStats;
+  logs: ChargingLog[];
+}
+
+export interface FleetSettings {
+  enabled: boolean;
+  // Base URL of the fleet receiver, e.g. http://192.168.1.20:8787
+  endpoint: string;
+  // Shown in the fleet view; falls back to the device profile name
+  deviceName: string;
+  // Shared secret, if the receiver was started with FLEET_TOKEN
+  token: string;
+}
+
+/** Live snapshot a device pushes to the fleet receiver. */
+export interface FleetTelemetry {
+  deviceId: string;
+  name: string;
+  level: number;
+  charging: boolean;
+  monitoring: boolean;
+  watts: number;
+  volts: number;
+  amps: number;
+  confidence: number;
+  // startTime of the session in progress, if any
+  sessionStart: number | null;
+  profileName: string;
+  simulated: boolean;
+  // Wall-clock time of the reading
+  at: number;
+}
+
+export interface FleetDevice {
+  deviceId: string;
+  name: string;
+  telemetry: FleetTelemetry | null;
+  // Receiver time of the last push from this device
+  lastSeen: number;
+  // Time since that push by the receiver's clock, as of when the list was sent
+  ageMs: number;
+  sessionCount: number;
+}
+
+export interface RetentionPolicy {
+  maxSessions: number | null;
+  maxAgeDays: number | null;
+  maxSizeMb: number | null;
+}
+
+export interface PredictionRecord {
+  // Level the prediction was for (0..1); 1 means "full"
+  target: number;
+  madeAt: number;
+  madeAtLevel: number;
+  predictedAt: number;
+  actualAt: number | null;
+}
+
+export type AlertRule = { id: string; enabled: boolean } & (
+  | { kind: 'level-reached'; level: number }
+  | { kind: 'unplugged' }
+  | { kind: 'low-wattage'; watts: number; minutes: number }
+  | { kind: 'stalled'; minutes: number }
+);
+
+export type InsightProviderId = 'gemini' | 'openai-compatible' | 'offline';
+
+export interface InsightSample {
+  time: string;
+  level: number;
+  wattage: number;
+  voltage: number;
+  amperage: number;
+}
+
+export interface InsightRequest {
+  stats: SessionStats;
+  timeline: InsightSample[];
+  // Language the report's prose is written in
+  locale: Locale;
+}
+
+export type ChargerGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export type ProtocolTier = 'usb-standard' | 'usb-bc' | 'quick-charge' | 'usb-pd' | 'pd-pps' | 'unknown';
+
+export interface InsightFlag {
+  severity: 'info' | 'warning' | 'critical';
+  message: string;
+}
+
+/** What a provider returns; every provider answers with this shape. */
+export interface InsightReport {
+  grade: ChargerGrade;
+  protocolTier: ProtocolTier;
+  summary: string;
+  healthFlags: InsightFlag[];
+  recommendations: string[];
+}
+
+export interface SessionInsight extends InsightReport {
+  provider: InsightProviderId;
+  generatedAt: number;
+  // True when the selected provider failed and the offline analyzer answered instead
+  fellBack: boolean;
+}
+
+export interface InsightSettings {
+  provider: InsightProviderId;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey: string;
+}
+
+export interface InsightProvider {
+  id: InsightProviderId;
+  // False when the provider cannot be reached right now (offline, no API key, no endpoint)
+  isAvailable: (settings: InsightSettings) => boolean;
+  getInsight: (request: InsightRequest, settings: InsightSettings) => Promise<InsightReport>;
 }